@@ -1,6 +1,54 @@
 import { Request, Response } from 'express';
 import { sessionService } from '../services/session.service';
-import type { FrameEvent } from '../core/machine.types';
+import type { FrameEvent, CleanSnapshot, SessionMetadata, AnzeigeKontext } from '../core/machine.types';
+import type { SessionSelector, SessionSortKey, SessionListField, EmergencyOutcome } from '../services/session.types';
+import { SessionNotificationTypes, SessionListFields, SessionSortKeys, EmergencyOutcomes } from '../services/session.types';
+import { EventValidationError } from '../core/event.validator';
+import { openApiDocument } from './openapi';
+import { config } from '../config';
+
+// Answers invalid event payloads with 422 and the list of invalid fields.
+// Returns false for all other errors.
+const respondWithValidationError = (res: Response, e: unknown): boolean => {
+  if (!(e instanceof EventValidationError)) return false;
+  res.status(422).json({ error: e.message, errors: e.errors });
+  return true;
+};
+
+// Checks numeric body parameters such as "steps"
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Checks the selector of a broadcast, returns the error message or undefined if it is valid.
+// Unknown fields are rejected, a misspelled criterion would otherwise select every session.
+const validateSelector = (selector: unknown): string | undefined => {
+  if (selector === null || typeof selector !== 'object' || Array.isArray(selector)) {
+    return 'Invalid selector object. Expected { sessionIds?, idPrefix?, tag?, state?, anzeigeKontext?, owner?, device?, location? }.';
+  }
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+  for (const [field, value] of Object.entries(selector)) {
+    if (field === 'sessionIds') {
+      if (!isStringArray(value)) return 'Invalid selector. "sessionIds" must be an array of strings.';
+    } else if (field === 'tag') {
+      if (typeof value !== 'string' && !isStringArray(value)) return 'Invalid selector. "tag" must be a string or an array of strings.';
+    } else if (field === 'state') {
+      if (typeof value !== 'string' || !/^[^.]+(\.[^.]+)*$/.test(value)) {
+        return 'Invalid selector. "state" must be a dot-separated state path, e.g. "ArbeitsModus.Entitaet".';
+      }
+    } else if (['idPrefix', 'anzeigeKontext', 'owner', 'device', 'location'].includes(field)) {
+      if (typeof value !== 'string') return `Invalid selector. "${field}" must be a string.`;
+    } else {
+      return `Invalid selector. "${field}" is not a known criterion.`;
+    }
+  }
+  return undefined;
+};
+
+// Parses a "since" query parameter (ISO 8601 date or milliseconds since epoch), NaN if it is invalid
+const parseSince = (since: unknown): number | undefined => {
+  if (since === undefined) return undefined;
+  return /^\d+$/.test(String(since)) ? Number(since) : Date.parse(String(since));
+};
 
 // ----------------------------------------------------
 // CONTROLLER FUNCTIONS
@@ -11,14 +59,27 @@ import type { FrameEvent } from '../core/machine.types';
 /**
  * POST /api/session/:sessionId
  * Creates (or replaces) a new state machine session.
- * Input: sessionId as URL parameter.
+ * Input: sessionId as URL parameter and optionally the metadata
+ * { "owner": string, "device": string, "location": string, "tags": string[] } in the request body.
  * Output: The clean snapshot (information) of the newly created session.
  */
 export const createSession = (req: Request, res: Response) => {
   const { sessionId } = req.params;
+  const { owner, device, location, tags } = req.body ?? {};
+
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every((tag: unknown) => typeof tag === 'string' && tag.trim() !== ''))) {
+    res.status(400).json({ error: 'Invalid session object. "tags" must be an array of non-empty strings.' });
+    return;
+  }
+  if ([owner, device, location].some((field) => field !== undefined && typeof field !== 'string')) {
+    res.status(400).json({ error: 'Invalid session object. "owner", "device" and "location" must be strings.' });
+    return;
+  }
+  const metadata: Partial<SessionMetadata> = { owner, device, location, tags };
+
   try {
     let wasDeleted = sessionService.removeSession(sessionId);
-    const cleanSnapshot = sessionService.createSession(sessionId);
+    const cleanSnapshot = sessionService.createSession(sessionId, metadata);
     if (wasDeleted) {
     res.status(200).json({message: `Session ID '${sessionId}' recreated.`, cleanSnapshot});
     } else {
@@ -48,11 +109,75 @@ export const getSessionState = (req: Request, res: Response) => {
 /**
  * GET /api/session/sessions
  * Retrieves all active sessions.
- * Output: A list of all active sessions with their clean snapshots.
+ * Input: optional query parameters to filter the sessions:
+ * `tag` (repeatable, all must match), `state` (e.g. 'ArbeitsModus.Entitaet'),
+ * `anzeigeKontext`, `owner`, `device`, `location` and `idPrefix`.
+ * Optional pagination, sorting and projection: `limit`, `offset` or `cursor`,
+ * `sortBy` ('sessionId', 'createdAt', 'lastActivityAt'), `order` ('asc', 'desc')
+ * and `fields` (comma-separated, e.g. 'sessionId,currentState,currentFrame').
+ * Output: A list of all (matching) active sessions with their clean snapshots;
+ * with pagination parameters one page plus `total` and `nextCursor`.
  */
 export const getAllSessions = (req: Request, res: Response) => {
+  const { tag, state, anzeigeKontext, owner, device, location, idPrefix } = req.query;
+  const { limit, offset, cursor, sortBy, order, fields } = req.query;
+  const isString = (value: unknown) => value === undefined || typeof value === 'string';
+
+  if (![state, anzeigeKontext, owner, device, location, idPrefix, limit, offset, cursor, sortBy, order, fields].every(isString)
+      || !(isString(tag) || (Array.isArray(tag) && tag.every((t) => typeof t === 'string')))) {
+    res.status(400).json({ error: 'Invalid query. Every parameter except "tag" may only be given once.' });
+    return;
+  }
+  const selector: SessionSelector = {
+    tag: tag as string | string[] | undefined,
+    state: state as string | undefined,
+    anzeigeKontext: anzeigeKontext as AnzeigeKontext | undefined,
+    owner: owner as string | undefined,
+    device: device as string | undefined,
+    location: location as string | undefined,
+    idPrefix: idPrefix as string | undefined,
+  };
+
+  if ([limit, offset, cursor, sortBy, order, fields].some((value) => value !== undefined)) {
+    const parsedLimit = limit === undefined ? undefined : Number(limit);
+    const parsedOffset = offset === undefined ? undefined : Number(offset);
+    if ([parsedLimit, parsedOffset].some((value) => value !== undefined && (!Number.isInteger(value) || value < 0))) {
+      res.status(400).json({ error: 'Invalid query. "limit" and "offset" must be non-negative integers.' });
+      return;
+    }
+    if (sortBy !== undefined && !(SessionSortKeys as readonly string[]).includes(sortBy as string)) {
+      res.status(400).json({ error: `Invalid query. "sortBy" must be one of: ${SessionSortKeys.join(', ')}.` });
+      return;
+    }
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      res.status(400).json({ error: 'Invalid query. "order" must be "asc" or "desc".' });
+      return;
+    }
+    const parsedFields = fields === undefined ? undefined : (fields as string).split(',').map((field) => field.trim());
+    if (parsedFields && !parsedFields.every((field) => (SessionListFields as readonly string[]).includes(field))) {
+      res.status(400).json({ error: `Invalid query. "fields" may only contain: ${SessionListFields.join(', ')}.` });
+      return;
+    }
+
+    try {
+      const page = sessionService.listSessions(selector, {
+        limit: parsedLimit,
+        offset: parsedOffset,
+        cursor: cursor as string | undefined,
+        sortBy: sortBy as SessionSortKey | undefined,
+        order: order as 'asc' | 'desc' | undefined,
+        fields: parsedFields as SessionListField[] | undefined,
+      });
+      res.status(200).json(page);
+    } catch (e) {
+      const message = (e as Error).message;
+      res.status(message.startsWith('Invalid input') ? 400 : 500).json({ error: message });
+    }
+    return;
+  }
+
   try {
-    const sessions = sessionService.getAllSessions();
+    const sessions = sessionService.getAllSessions(selector);
     if (sessions.length === 0) {
       res.status(200).json({ message: 'No active sessions found.', count: 0, sessions: [] });
       return;
@@ -66,15 +191,86 @@ export const getAllSessions = (req: Request, res: Response) => {
   }
 }; 
 
+/**
+ * GET /api/session/:sessionId/stream
+ * Streams every new snapshot of a session as Server-Sent Events (fallback for clients without WebSocket).
+ * Input: sessionId as URL parameter.
+ * Output: 'snapshot' events with the clean snapshot, 'heartbeat' events, 'escalation' events
+ * for unconfirmed emergencies and a terminal 'end' event when the session is deleted or completed.
+ */
+export const streamSession = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  let initialSnapshot: CleanSnapshot;
+  try {
+    initialSnapshot = sessionService.getSessionState(sessionId);
+  } catch (e) {
+    res.status(404).json({ error: (e as Error).message });
+    return;
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const writeEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let unsubscribe = () => {};
+  const heartbeat = setInterval(() => writeEvent('heartbeat', { timestamp: new Date().toISOString() }), config.sseHeartbeatMs);
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  // Sends the terminal event and closes the stream
+  const end = (reason: 'deleted' | 'completed') => {
+    writeEvent('end', { sessionId, reason });
+    cleanup();
+    res.end();
+  };
+
+  // Sends a snapshot and ends the stream once the machine reached its final state
+  const writeSnapshot = (snapshot: CleanSnapshot) => {
+    writeEvent('snapshot', snapshot);
+    if (snapshot.currentState === 'DienstAbgeschlossen') {
+      end('completed');
+    }
+  };
+
+  unsubscribe = sessionService.subscribe((notification) => {
+    if (notification.sessionId !== sessionId) return;
+    if (notification.type === SessionNotificationTypes.SESSION_SNAPSHOT) {
+      writeSnapshot(notification.snapshot);
+    } else if (notification.type === SessionNotificationTypes.SESSION_ESCALATED) {
+      writeEvent('escalation', { sessionId, notfall: notification.notfall });
+    } else if (notification.type === SessionNotificationTypes.SESSION_DELETED) {
+      end('deleted');
+    }
+  });
+  req.on('close', cleanup);
+
+  writeSnapshot(initialSnapshot);
+};
+
 /**
  * POST /api/session/:sessionId/event
  * Sends an event to the state machine and returns the NEW state.
- * Input: sessionId as URL parameter and the event in the request body (JSON).
- * Output: The clean snapshot (information) of the session after processing the event.
+ * Input: sessionId as URL parameter and the event in the request body (JSON),
+ * optional query parameter `strict=true` to reject ignored events with 409.
+ * Output: The clean snapshot (information) of the session after processing the event
+ * and the `outcome` of the event (e.g. 'transitioned' or 'ignored_by_guard' with the reason),
+ * for SUCHE_FRAME also the `search` result (whether and where the frame was found),
+ * or 422 with the list of invalid fields if the payload does not match the event type.
  */
 export const sendEvent = (req: Request, res: Response) => {
   const { sessionId } = req.params;
   const event = req.body;
+  const strict = req.query.strict === 'true';
 
   // Basic validation for FrameEvent structure (customize as needed)
   if (!event || typeof event.type !== 'string') {
@@ -83,9 +279,285 @@ export const sendEvent = (req: Request, res: Response) => {
   }
 
   try {
-    const newCleanSnapshot = sessionService.sendEvent(sessionId, event as FrameEvent);
-    res.status(200).json(newCleanSnapshot);
+    const { cleanSnapshot, outcome, search } = sessionService.processEvent(sessionId, event as FrameEvent);
+    const accepted = outcome.status === 'transitioned' || outcome.status === 'context_changed';
+    if (strict && !accepted) {
+      res.status(409).json({ error: outcome.reason, ...cleanSnapshot, outcome, search });
+      return;
+    }
+    res.status(200).json({ ...cleanSnapshot, outcome, search });
+  } catch (e) {
+    if (respondWithValidationError(res, e)) return;
+    res.status(400).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * GET /api/session/:sessionId/available-events
+ * Lists the events that would be handled in the current state of a session,
+ * e.g. to enable or disable the controls of a UI.
+ * Input: sessionId as URL parameter.
+ * Output: The current state, the types of all available events and the details per event type.
+ */
+export const getAvailableEvents = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  try {
+    const events = sessionService.getAvailableEvents(sessionId);
+    res.status(200).json({
+      sessionId,
+      currentState: sessionService.getSessionState(sessionId).currentState,
+      availableEvents: events.filter((event) => event.available).map((event) => event.type),
+      events,
+    });
+  } catch (e) {
+    res.status(404).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * GET /api/session/:sessionId/history
+ * Retrieves the recorded events (audit log) of a session.
+ * Input: sessionId as URL parameter, optional query parameters
+ * `limit` (most recent N entries) and `since` (ISO 8601 date or milliseconds since epoch).
+ * Output: The history entries of the session (oldest first).
+ */
+export const getSessionHistory = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const { limit, since } = req.query;
+
+  const parsedLimit = limit === undefined ? undefined : Number(limit);
+  if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 0)) {
+    res.status(400).json({ error: 'Invalid query. "limit" must be a non-negative integer.' });
+    return;
+  }
+  const parsedSince = parseSince(since);
+  if (parsedSince !== undefined && Number.isNaN(parsedSince)) {
+    res.status(400).json({ error: 'Invalid query. "since" must be an ISO 8601 date or a timestamp in milliseconds.' });
+    return;
+  }
+
+  try {
+    const history = sessionService.getHistory(sessionId, { limit: parsedLimit, since: parsedSince });
+    res.status(200).json({ sessionId, count: history.length, history });
+  } catch (e) {
+    res.status(404).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * GET /api/session/:sessionId/emergencies
+ * Retrieves the records of the emergencies a session received:
+ * the list shown, when the confirmation was requested and answered, by whom and with which outcome.
+ * Input: sessionId as URL parameter.
+ * Output: The emergency records of the session (oldest first).
+ */
+export const getSessionEmergencies = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  try {
+    const emergencies = sessionService.getEmergencies(sessionId);
+    res.status(200).json({ sessionId, count: emergencies.length, emergencies });
+  } catch (e) {
+    res.status(404).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * GET /api/session/emergencies
+ * Reports the emergencies of all sessions: how long their confirmation took and their outcome.
+ * Input: optional query parameters `since` (ISO 8601 date or milliseconds since epoch)
+ * and `outcome` (e.g. 'ACCEPTED').
+ * Output: The matching emergency records (oldest first), the number per outcome and the average confirmation time.
+ */
+export const getEmergencyReport = (req: Request, res: Response) => {
+  const { since, outcome } = req.query;
+
+  const parsedSince = parseSince(since);
+  if (parsedSince !== undefined && Number.isNaN(parsedSince)) {
+    res.status(400).json({ error: 'Invalid query. "since" must be an ISO 8601 date or a timestamp in milliseconds.' });
+    return;
+  }
+  if (outcome !== undefined && !(EmergencyOutcomes as readonly unknown[]).includes(outcome)) {
+    res.status(400).json({ error: `Invalid query. "outcome" must be one of: ${EmergencyOutcomes.join(', ')}.` });
+    return;
+  }
+
+  try {
+    const report = sessionService.getEmergencyReport({ since: parsedSince, outcome: outcome as EmergencyOutcome | undefined });
+    res.status(200).json(report);
+  } catch (e) {
+    res.status(500).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * POST /api/session/:sessionId/undo
+ * Steps a session back by restoring an earlier snapshot.
+ * Input: sessionId as URL parameter and optionally { "steps": number } (default 1)
+ * or { "toSeq": number } (sequence number of the history entry to undo) in the request body.
+ * Output: The clean snapshot (information) of the restored session.
+ */
+export const undo = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const { steps, toSeq } = req.body ?? {};
+
+  if ((steps !== undefined && !isPositiveInteger(steps)) || (toSeq !== undefined && !isPositiveInteger(toSeq))) {
+    res.status(400).json({ error: 'Invalid undo object. "steps" and "toSeq" must be positive integers.' });
+    return;
+  }
+  if (steps !== undefined && toSeq !== undefined) {
+    res.status(400).json({ error: 'Invalid undo object. Provide either "steps" or "toSeq", not both.' });
+    return;
+  }
+  if (sessionService.getSession(sessionId) === undefined) {
+    res.status(404).json({ error: `Session with ID '${sessionId}' not found.` });
+    return;
+  }
+
+  try {
+    const cleanSnapshot = sessionService.undo(sessionId, { steps, toSeq });
+    res.status(200).json(cleanSnapshot);
+  } catch (e) {
+    res.status(409).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * POST /api/session/:sessionId/redo
+ * Re-applies snapshots that were undone before.
+ * Input: sessionId as URL parameter and optionally { "steps": number } (default 1) in the request body.
+ * Output: The clean snapshot (information) of the restored session.
+ */
+export const redo = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const { steps } = req.body ?? {};
+
+  if (steps !== undefined && !isPositiveInteger(steps)) {
+    res.status(400).json({ error: 'Invalid redo object. "steps" must be a positive integer.' });
+    return;
+  }
+  if (sessionService.getSession(sessionId) === undefined) {
+    res.status(404).json({ error: `Session with ID '${sessionId}' not found.` });
+    return;
+  }
+
+  try {
+    const cleanSnapshot = sessionService.redo(sessionId, steps);
+    res.status(200).json(cleanSnapshot);
+  } catch (e) {
+    res.status(409).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * POST /api/session/:sessionId/lease
+ * Extends the lease of a session so it does not expire while the client is idle.
+ * Input: sessionId as URL parameter and optionally { "idleTtlMs": number } in the request body.
+ * Output: The clean snapshot (information) of the session with the new expiry.
+ */
+export const extendLease = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const idleTtlMs = req.body?.idleTtlMs;
+
+  if (idleTtlMs !== undefined && typeof idleTtlMs !== 'number') {
+    res.status(400).json({ error: 'Invalid lease object. "idleTtlMs" must be a number.' });
+    return;
+  }
+  if (sessionService.getSession(sessionId) === undefined) {
+    res.status(404).json({ error: `Session with ID '${sessionId}' not found.` });
+    return;
+  }
+
+  try {
+    const cleanSnapshot = sessionService.extendLease(sessionId, idleTtlMs);
+    res.status(200).json(cleanSnapshot);
+  } catch (e) {
+    res.status(400).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * POST /api/session/:sessionId/replay
+ * Rebuilds (creates or resets in place) a session by replaying an ordered event log on a fresh machine.
+ * Input: sessionId as URL parameter and { "events": FrameEvent[] } in the request body.
+ * Output: The final clean snapshot and the snapshot after every single event.
+ */
+export const replaySession = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const events = req.body?.events;
+
+  if (!Array.isArray(events)) {
+    res.status(400).json({ error: 'Invalid replay object. Missing required "events" array.' });
+    return;
+  }
+
+  try {
+    const existed = sessionService.getSession(sessionId) !== undefined;
+    const result = sessionService.replaySession(sessionId, events as FrameEvent[]);
+    res.status(existed ? 200 : 201).json({
+      message: `Session ID '${sessionId}' ${existed ? 'rebuilt' : 'created'} from ${events.length} event(s).`,
+      ...result,
+    });
+  } catch (e) {
+    if (respondWithValidationError(res, e)) return;
+    res.status(400).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * POST /api/session/:sessionId/events
+ * Sends several events as one atomic batch (all-or-nothing).
+ * Input: sessionId as URL parameter and the events as JSON array (or { "events": [...] }) in the request body.
+ * Output: The final clean snapshot and the result of every event (200),
+ * or the unchanged snapshot and the rejected event if the batch was rolled back (409).
+ */
+export const sendEvents = (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const events = Array.isArray(req.body) ? req.body : req.body?.events;
+
+  if (!Array.isArray(events) || events.length === 0) {
+    res.status(400).json({ error: 'Invalid batch object. Expected a non-empty array of events.' });
+    return;
+  }
+  if (sessionService.getSession(sessionId) === undefined) {
+    res.status(404).json({ error: `Session with ID '${sessionId}' not found.` });
+    return;
+  }
+
+  try {
+    const result = sessionService.sendEvents(sessionId, events as FrameEvent[]);
+    res.status(result.applied ? 200 : 409).json(result);
+  } catch (e) {
+    if (respondWithValidationError(res, e)) return;
+    res.status(400).json({ error: (e as Error).message });
+  }
+};
+
+/**
+ * POST /api/broadcast
+ * Sends the same event (e.g. NOTFALL_EMPFANGEN) to all sessions or to the sessions matching a selector.
+ * Input: { "event": FrameEvent, "selector": { sessionIds?, idPrefix?, tag?, state?, anzeigeKontext?, owner?, device?, location? } }
+ * in the request body.
+ * Output on an invalid selector (e.g. an unknown criterion or a mistyped value): 400 Bad Request.
+ * Output: A summary and the result for every matched session.
+ */
+export const broadcastEvent = (req: Request, res: Response) => {
+  const { event, selector = {} } = req.body ?? {};
+
+  if (!event || typeof event.type !== 'string') {
+    res.status(400).json({ error: 'Invalid event object. Missing required "type" property.' });
+    return;
+  }
+  const selectorError = validateSelector(selector);
+  if (selectorError) {
+    res.status(400).json({ error: selectorError });
+    return;
+  }
+
+  try {
+    const result = sessionService.broadcastEvent(event as FrameEvent, selector as SessionSelector);
+    res.status(200).json(result);
   } catch (e) {
+    if (respondWithValidationError(res, e)) return;
     res.status(400).json({ error: (e as Error).message });
   }
 };
@@ -109,3 +581,13 @@ export const deleteSession = (req: Request, res: Response) => {
     res.status(500).json({ error: (e as Error).message });
   }
 };
+
+/**
+ * GET /api/openapi.json
+ * Returns the OpenAPI 3 document describing all routes of the API.
+ * Input: none.
+ * Output: The OpenAPI document (rendered by the docs page at /docs).
+ */
+export const getOpenApiDocument = (req: Request, res: Response) => {
+  res.status(200).json(openApiDocument);
+};
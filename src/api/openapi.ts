@@ -0,0 +1,953 @@
+import { config } from '../config';
+import { getArbeitsKontexte, listKontextRegistry } from '../core/context.registry';
+import { DIASHOW_MIN_INTERVALL_MS, NavigationsModi, NOTFALL_MIN_TIMEOUT_MS, SuchBereiche, SuchModi, TimeoutModi } from '../core/machine.types';
+import { EmergencyOutcomes } from '../services/session.types';
+
+// ----------------------------------------------------
+// OPENAPI DOCUMENT
+// Describes all routes of routes.ts (served at /api/openapi.json).
+// Every route added to the router must be described here,
+// test/api/openapi.test.ts fails otherwise.
+// ----------------------------------------------------
+
+// Names of the list contexts that can be loaded (ENTITAET, ALLGEMEIN and the configured ones)
+const arbeitsKontextNamen = getArbeitsKontexte(listKontextRegistry).map((kontext) => kontext.name);
+
+// Shorthands to keep the path definitions readable
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (description: string, schema: object) => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+const error = (description: string) => json(description, ref('Error'));
+
+const sessionIdParameter = {
+  name: 'sessionId',
+  in: 'path',
+  required: true,
+  description: 'The ID of the session.',
+  schema: { type: 'string' },
+};
+
+const queryParameter = (name: string, description: string, schema: object = { type: 'string' }) => ({
+  name,
+  in: 'query',
+  required: false,
+  description,
+  schema,
+});
+
+// One schema per FrameEvent variant, combined to a discriminated union
+const frameEventSchemas = {
+  SchliessenEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['SCHLIESSEN'] } },
+  },
+  ZurucksetzenEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['ZURUCKSETZEN'] } },
+  },
+  AusschaltenEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['AUSSCHALTEN'] } },
+  },
+  NaechsterFrameEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['NAECHSTER_FRAME'] } },
+  },
+  VorherigerFrameEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['VORHERIGER_FRAME'] } },
+  },
+  SucheFrameEvent: {
+    type: 'object',
+    required: ['type', 'frameName'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['SUCHE_FRAME'] },
+      frameName: { type: 'string', minLength: 1, description: 'Search term, compared with the ID and then the title of the frames.' },
+      match: { type: 'string', enum: [...SuchModi], description: 'EXACT (default), IGNORE_CASE, PREFIX or SUBSTRING.' },
+      scope: { type: 'string', enum: [...SuchBereiche], description: 'ACTIVE (default) or ALL loaded lists of ArbeitsModus.' },
+      next: { type: 'boolean', description: 'Continue after the current frame (wrapping around), e.g. to step through duplicates.' },
+    },
+  },
+  ErsterFrameEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['ERSTER_FRAME'] } },
+  },
+  LetzterFrameEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['LETZTER_FRAME'] } },
+  },
+  SpringeZuIndexEvent: {
+    type: 'object',
+    required: ['type', 'index'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['SPRINGE_ZU_INDEX'] },
+      index: { type: 'integer', minimum: 0, description: 'Zero-based index in the active list.' },
+    },
+  },
+  SpringeUmOffsetEvent: {
+    type: 'object',
+    required: ['type', 'offset'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['SPRINGE_UM_OFFSET'] },
+      offset: { type: 'integer', description: 'Number of frames forward (positive) or backward (negative).' },
+    },
+  },
+  NotfallEmpfangenEvent: {
+    type: 'object',
+    required: ['type', 'list'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['NOTFALL_EMPFANGEN'] },
+      list: { type: 'array', items: ref('FrameInput') },
+      navigation: ref('NavigationsModus'),
+      id: { type: 'string', minLength: 1, description: "ID of the emergency (default: 'NOTFALL-<n>'). An emergency with a known ID replaces it." },
+      priority: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Higher values are more urgent (default: 0). A higher priority preempts the displayed emergency, all others are queued.',
+      },
+      timeoutMs: { type: 'integer', minimum: NOTFALL_MIN_TIMEOUT_MS, description: 'Time the user has to confirm the emergency.' },
+      onTimeout: ref('TimeoutModus'),
+    },
+  },
+  UserBestaetigtNotfallEvent: {
+    type: 'object',
+    required: ['type', 'accepted'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['USER_BESTAETIGT_NOTFALL'] },
+      accepted: { type: 'boolean' },
+      user: { type: 'string', minLength: 1, description: 'Identity of the user who answered, recorded with the answer (answers without it are reported as anonymous).' },
+      comment: { type: 'string', description: 'Recorded with the answer.' },
+    },
+  },
+  LadeNeueListeEvent: {
+    type: 'object',
+    required: ['type', 'list', 'context'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['LADE_NEUE_LISTE'] },
+      list: { type: 'array', items: ref('FrameInput') },
+      navigation: ref('NavigationsModus'),
+      context: { type: 'string', enum: arbeitsKontextNamen },
+    },
+  },
+  FramesAnhaengenEvent: {
+    type: 'object',
+    required: ['type', 'context', 'list'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['FRAMES_ANHAENGEN'] },
+      context: { type: 'string', enum: arbeitsKontextNamen },
+      list: { type: 'array', items: ref('FrameInput') },
+    },
+  },
+  FramesEinfuegenEvent: {
+    type: 'object',
+    required: ['type', 'context', 'index', 'list'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['FRAMES_EINFUEGEN'] },
+      context: { type: 'string', enum: arbeitsKontextNamen },
+      index: { type: 'integer', minimum: 0, description: 'The frames are inserted before the frame at this index, the length of the list appends them.' },
+      list: { type: 'array', items: ref('FrameInput') },
+    },
+  },
+  FrameEntfernenEvent: {
+    type: 'object',
+    required: ['type', 'context', 'frameId'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['FRAME_ENTFERNEN'] },
+      context: { type: 'string', enum: arbeitsKontextNamen },
+      frameId: { type: 'string', minLength: 1, description: 'The first frame with this ID is removed.' },
+    },
+  },
+  FrameVerschiebenEvent: {
+    type: 'object',
+    required: ['type', 'context', 'frameId', 'toIndex'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['FRAME_VERSCHIEBEN'] },
+      context: { type: 'string', enum: arbeitsKontextNamen },
+      frameId: { type: 'string', minLength: 1, description: 'The first frame with this ID is moved.' },
+      toIndex: { type: 'integer', minimum: 0, description: 'Position of the frame in the resulting list.' },
+    },
+  },
+  DiashowStartenEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['DIASHOW_STARTEN'] },
+      intervalMs: {
+        type: 'integer',
+        minimum: DIASHOW_MIN_INTERVALL_MS,
+        description: 'Time between two frames in milliseconds. Without it a paused slideshow is resumed with its previous interval.',
+      },
+    },
+  },
+  DiashowPausierenEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['DIASHOW_PAUSIEREN'] } },
+  },
+  DiashowStoppenEvent: {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: { type: { type: 'string', enum: ['DIASHOW_STOPPEN'] } },
+  },
+};
+
+// Maps the value of 'type' to the schema of the variant
+const frameEventMapping = Object.fromEntries(
+  Object.entries(frameEventSchemas).map(([name, schema]) => [schema.properties.type.enum[0], `#/components/schemas/${name}`])
+);
+
+const schemas = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: { error: { type: 'string' } },
+  },
+  ValidationError: {
+    type: 'object',
+    required: ['error', 'errors'],
+    properties: {
+      error: { type: 'string' },
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['field', 'code', 'message'],
+          properties: {
+            field: { type: 'string', example: 'events[1].accepted' },
+            code: { type: 'string', enum: ['required', 'invalid_type', 'invalid_value', 'unknown_field'] },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  AnzeigeKontext: { type: 'string', enum: [...arbeitsKontextNamen, 'NOTFALL', 'INAKTIV'] },
+  StateValue: {
+    description: "The state of the machine, e.g. 'Inaktiv' or { \"ArbeitsModus\": \"Entitaet\" }.",
+    oneOf: [{ type: 'string' }, { type: 'object', additionalProperties: true }],
+  },
+  Frame: {
+    type: 'object',
+    required: ['id', 'title'],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      title: { type: 'string' },
+      template: { type: 'string' },
+      payload: { type: 'object', additionalProperties: true },
+      metadata: { type: 'object', additionalProperties: true },
+    },
+  },
+  FrameInput: {
+    description: "A frame object or its ID as plain string ('E1' is the same as { \"id\": \"E1\" }). The title defaults to the ID.",
+    oneOf: [
+      { type: 'string' },
+      {
+        type: 'object',
+        required: ['id'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          title: { type: 'string' },
+          template: { type: 'string' },
+          payload: { type: 'object', additionalProperties: true },
+          metadata: { type: 'object', additionalProperties: true },
+        },
+      },
+    ],
+  },
+  NavigationsModus: {
+    description: 'Navigation at the ends of the list: STOP (default), WRAP (last -> first and vice versa) or BOUNCE (direction is reversed).',
+    type: 'string',
+    enum: [...NavigationsModi],
+  },
+  Diashow: {
+    description: 'Slideshow of a list. It only advances while the list is displayed (not during NotfallModus).',
+    type: 'object',
+    required: ['intervalMs', 'status'],
+    properties: {
+      intervalMs: { type: 'integer', minimum: 1 },
+      status: { type: 'string', enum: ['LAEUFT', 'PAUSIERT'] },
+    },
+  },
+  TimeoutModus: {
+    description: 'Applied when an emergency is not confirmed within its timeout: AUTO_ACCEPT, REPROMPT or ESCALATE (default).',
+    type: 'string',
+    enum: [...TimeoutModi],
+  },
+  Notfall: {
+    type: 'object',
+    required: ['id', 'priority'],
+    properties: {
+      id: { type: 'string' },
+      priority: { type: 'integer', minimum: 0 },
+      timeoutMs: { type: 'integer', minimum: 1 },
+      onTimeout: ref('TimeoutModus'),
+    },
+  },
+  WartenderNotfall: {
+    description: 'An emergency waiting in the queue, with its frames and the index to resume from.',
+    type: 'object',
+    required: ['id', 'priority', 'list', 'navigation', 'index'],
+    properties: {
+      id: { type: 'string' },
+      priority: { type: 'integer', minimum: 0 },
+      timeoutMs: { type: 'integer', minimum: 1 },
+      onTimeout: ref('TimeoutModus'),
+      list: { type: 'array', items: ref('Frame') },
+      navigation: ref('NavigationsModus'),
+      index: { type: 'integer', minimum: 0 },
+    },
+  },
+  Bestaetigung: {
+    description: 'Pending confirmation of an emergency with a timeout.',
+    type: 'object',
+    required: ['frist', 'erinnerungen', 'eskaliert'],
+    properties: {
+      frist: { type: 'integer', nullable: true, description: 'Deadline in milliseconds since epoch, null after the escalation.' },
+      erinnerungen: { type: 'integer', minimum: 0, description: 'Number of re-prompts (REPROMPT).' },
+      eskaliert: { type: 'boolean' },
+    },
+  },
+  FrameContext: {
+    type: 'object',
+    required: [
+      'entitaetListe', 'allgemeineListe', 'notfallListe',
+      'aktuellerEntitaetIndex', 'aktuellerAllgemeinIndex', 'aktuellerNotfallIndex',
+      'weitereListen', 'weitereIndizes', 'navigationsModi', 'navigationsRichtungen', 'diashow',
+      'aktiverNotfall', 'notfallWarteschlange', 'notfallZaehler', 'bestaetigung',
+      'anzeigeKontext', 'aktuellerFrame', 'herkunftsZustand',
+    ],
+    properties: {
+      entitaetListe: { type: 'array', items: ref('Frame') },
+      allgemeineListe: { type: 'array', items: ref('Frame') },
+      notfallListe: { type: 'array', items: ref('Frame') },
+      aktuellerEntitaetIndex: { type: 'integer', minimum: 0 },
+      aktuellerAllgemeinIndex: { type: 'integer', minimum: 0 },
+      aktuellerNotfallIndex: { type: 'integer', minimum: 0 },
+      weitereListen: {
+        description: 'Lists of the registered list contexts, by name.',
+        type: 'object',
+        additionalProperties: { type: 'array', items: ref('Frame') },
+      },
+      weitereIndizes: {
+        description: 'Indices of the registered list contexts, by name.',
+        type: 'object',
+        additionalProperties: { type: 'integer', minimum: 0 },
+      },
+      navigationsModi: {
+        description: 'Navigation mode of every loaded list, by list context name.',
+        type: 'object',
+        additionalProperties: ref('NavigationsModus'),
+      },
+      navigationsRichtungen: {
+        description: 'Direction of every loaded list (1 forward, -1 backward), only reversed by BOUNCE.',
+        type: 'object',
+        additionalProperties: { type: 'integer', enum: [1, -1] },
+      },
+      diashow: {
+        description: 'Slideshow of every list that has one, by list context name.',
+        type: 'object',
+        additionalProperties: ref('Diashow'),
+      },
+      aktiverNotfall: {
+        description: 'The emergency displayed in NotfallModus, null outside of NotfallModus.',
+        allOf: [ref('Notfall')],
+        nullable: true,
+      },
+      notfallWarteschlange: {
+        description: 'Pending emergencies, highest priority first.',
+        type: 'array',
+        items: ref('WartenderNotfall'),
+      },
+      notfallZaehler: { type: 'integer', minimum: 0, description: 'Number of emergencies received.' },
+      bestaetigung: {
+        description: 'Pending confirmation of the displayed emergency, null if it has no timeout or is confirmed.',
+        allOf: [ref('Bestaetigung')],
+        nullable: true,
+      },
+      anzeigeKontext: ref('AnzeigeKontext'),
+      aktuellerFrame: ref('Frame'),
+      herkunftsZustand: { type: 'string' },
+    },
+  },
+  SessionMetadata: {
+    type: 'object',
+    required: ['tags'],
+    properties: {
+      owner: { type: 'string' },
+      device: { type: 'string' },
+      location: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string', minLength: 1 } },
+    },
+  },
+  CleanSnapshot: {
+    type: 'object',
+    required: ['sessionId', 'currentState', 'currentFrame', 'frame', 'context', 'lastActivityAt', 'expiresAt', 'confirmationRemainingMs', 'metadata'],
+    properties: {
+      seq: { type: 'integer', description: 'Sequence number of the record in the emergency log of all sessions.' },
+      sessionId: { type: 'string' },
+      currentState: ref('StateValue'),
+      currentFrame: { type: 'string', description: 'ID of the current frame.' },
+      frame: ref('Frame'),
+      context: ref('FrameContext'),
+      lastActivityAt: { type: 'string', format: 'date-time' },
+      expiresAt: { type: 'string', format: 'date-time', nullable: true },
+      confirmationRemainingMs: {
+        type: 'integer',
+        nullable: true,
+        description: 'Time left to confirm the displayed emergency, null if no confirmation timeout is running.',
+      },
+      metadata: ref('SessionMetadata'),
+    },
+  },
+  ...frameEventSchemas,
+  FrameEvent: {
+    oneOf: Object.keys(frameEventSchemas).map(ref),
+    discriminator: { propertyName: 'type', mapping: frameEventMapping },
+  },
+  EventOutcome: {
+    type: 'object',
+    required: ['status', 'reason'],
+    properties: {
+      status: { type: 'string', enum: ['transitioned', 'context_changed', 'unchanged', 'ignored_by_guard', 'not_handled'] },
+      reason: { type: 'string' },
+    },
+  },
+  EventResponse: {
+    allOf: [
+      ref('CleanSnapshot'),
+      {
+        type: 'object',
+        required: ['outcome'],
+        properties: { outcome: ref('EventOutcome'), search: ref('SuchErgebnis') },
+      },
+    ],
+  },
+  SuchErgebnis: {
+    description: 'Result of SUCHE_FRAME (only present for SUCHE_FRAME events that were handled).',
+    type: 'object',
+    required: ['found'],
+    properties: {
+      found: { type: 'boolean' },
+      kontext: { type: 'string', description: 'List context the frame was found in.' },
+      index: { type: 'integer', minimum: 0 },
+      frame: ref('Frame'),
+      matchedBy: { type: 'string', enum: ['id', 'title'] },
+    },
+  },
+  SessionCreated: {
+    type: 'object',
+    required: ['message', 'cleanSnapshot'],
+    properties: { message: { type: 'string' }, cleanSnapshot: ref('CleanSnapshot') },
+  },
+  SessionList: {
+    type: 'object',
+    required: ['count', 'sessions'],
+    properties: {
+      message: { type: 'string' },
+      count: { type: 'integer' },
+      total: { type: 'integer', description: 'Only with pagination parameters.' },
+      nextCursor: { type: 'string', nullable: true, description: 'Only with pagination parameters.' },
+      sessions: {
+        type: 'array',
+        description: 'Clean snapshots, projected to `fields` if given.',
+        items: ref('CleanSnapshot'),
+      },
+    },
+  },
+  HistoryEntry: {
+    type: 'object',
+    required: ['seq', 'timestamp', 'event', 'stateBefore', 'stateAfter', 'frameBefore', 'frameAfter', 'transitioned'],
+    properties: {
+      seq: { type: 'integer' },
+      timestamp: { type: 'string', format: 'date-time' },
+      event: {
+        oneOf: [
+          ref('FrameEvent'),
+          {
+            type: 'object',
+            required: ['type', 'steps'],
+            properties: { type: { type: 'string', enum: ['UNDO', 'REDO'] }, steps: { type: 'integer' } },
+          },
+        ],
+      },
+      stateBefore: ref('StateValue'),
+      stateAfter: ref('StateValue'),
+      frameBefore: { type: 'string' },
+      frameAfter: { type: 'string' },
+      transitioned: { type: 'boolean' },
+    },
+  },
+  EmergencyOutcome: {
+    type: 'string',
+    enum: [...EmergencyOutcomes],
+  },
+  EmergencyRecord: {
+    description: 'A single emergency received by a session, with its confirmation and outcome.',
+    type: 'object',
+    required: [
+      'seq', 'sessionId', 'id', 'priority', 'list', 'receivedAt', 'displayedAt', 'resolvedAt',
+      'confirmationMs', 'outcome', 'user', 'comment', 'reminders', 'escalated',
+    ],
+    properties: {
+      sessionId: { type: 'string' },
+      id: { type: 'string' },
+      priority: { type: 'integer', minimum: 0 },
+      list: { type: 'array', items: ref('Frame'), description: 'The emergency list shown to the user.' },
+      receivedAt: { type: 'string', format: 'date-time' },
+      displayedAt: { type: 'string', format: 'date-time', nullable: true, description: 'Time the confirmation was requested.' },
+      resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+      confirmationMs: { type: 'integer', nullable: true, description: 'Time from the confirmation request to the answer.' },
+      outcome: ref('EmergencyOutcome'),
+      user: { type: 'string', nullable: true },
+      comment: { type: 'string', nullable: true },
+      reminders: { type: 'integer', minimum: 0 },
+      escalated: { type: 'boolean' },
+    },
+  },
+  EmergencyReport: {
+    type: 'object',
+    required: ['count', 'summary', 'averageConfirmationMs', 'anonymousAnswers', 'emergencies'],
+    properties: {
+      count: { type: 'integer' },
+      summary: {
+        type: 'object',
+        description: 'Number of emergencies per outcome.',
+        properties: Object.fromEntries(EmergencyOutcomes.map((outcome) => [outcome, { type: 'integer' }])),
+      },
+      averageConfirmationMs: { type: 'integer', nullable: true, description: 'Average confirmation time of the answered emergencies.' },
+      anonymousAnswers: { type: 'integer', description: 'Number of emergencies accepted or rejected without a user.' },
+      emergencies: { type: 'array', items: ref('EmergencyRecord') },
+    },
+  },
+  EventStepResult: {
+    type: 'object',
+    required: ['event', 'transitioned', 'snapshot'],
+    properties: { event: ref('FrameEvent'), transitioned: { type: 'boolean' }, snapshot: ref('CleanSnapshot') },
+  },
+  ReplayResponse: {
+    type: 'object',
+    required: ['message', 'cleanSnapshot', 'steps'],
+    properties: {
+      message: { type: 'string' },
+      cleanSnapshot: ref('CleanSnapshot'),
+      steps: { type: 'array', items: ref('EventStepResult') },
+    },
+  },
+  BatchResult: {
+    type: 'object',
+    required: ['applied', 'cleanSnapshot', 'results'],
+    properties: {
+      applied: { type: 'boolean' },
+      cleanSnapshot: ref('CleanSnapshot'),
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['event', 'status'],
+          properties: {
+            event: ref('FrameEvent'),
+            status: { type: 'string', enum: ['applied', 'rejected', 'rolled_back', 'skipped'] },
+            snapshot: ref('CleanSnapshot'),
+          },
+        },
+      },
+    },
+  },
+  SessionSelector: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      sessionIds: { type: 'array', items: { type: 'string' } },
+      idPrefix: { type: 'string' },
+      tag: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+      state: { type: 'string', example: 'ArbeitsModus.Entitaet' },
+      anzeigeKontext: { type: 'string', example: 'ENTITAET' },
+      owner: { type: 'string' },
+      device: { type: 'string' },
+      location: { type: 'string' },
+    },
+  },
+  BroadcastResult: {
+    type: 'object',
+    required: ['event', 'count', 'summary', 'results'],
+    properties: {
+      event: ref('FrameEvent'),
+      count: { type: 'integer' },
+      summary: { type: 'object', additionalProperties: { type: 'integer' } },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['sessionId', 'status'],
+          properties: {
+            sessionId: { type: 'string' },
+            status: { type: 'string', enum: ['delivered', 'ignored', 'final', 'unreachable', 'not_found'] },
+            currentState: ref('StateValue'),
+            error: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  AvailableEvents: {
+    type: 'object',
+    required: ['sessionId', 'currentState', 'availableEvents', 'events'],
+    properties: {
+      sessionId: { type: 'string' },
+      currentState: ref('StateValue'),
+      availableEvents: { type: 'array', items: { type: 'string' } },
+      events: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['type', 'available', 'payloadDependent'],
+          properties: {
+            type: { type: 'string' },
+            available: { type: 'boolean' },
+            payloadDependent: { type: 'boolean' },
+          },
+        },
+      },
+    },
+  },
+};
+
+const paths = {
+  '/api/openapi.json': {
+    get: {
+      summary: 'Returns this OpenAPI document.',
+      responses: {
+        200: json('The OpenAPI 3 document.', { type: 'object' }),
+      },
+    },
+  },
+  '/api/broadcast': {
+    post: {
+      summary: 'Sends the same event to all sessions or to the sessions matching a selector.',
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['event'],
+              properties: { event: ref('FrameEvent'), selector: ref('SessionSelector') },
+            },
+          },
+        },
+      },
+      responses: {
+        200: json('The result for every matched session.', ref('BroadcastResult')),
+        400: error('Invalid event or selector.'),
+        422: json('The payload does not match the event type.', ref('ValidationError')),
+      },
+    },
+  },
+  '/api/session/sessions': {
+    get: {
+      summary: 'Lists all active sessions, optionally filtered, sorted and paginated.',
+      parameters: [
+        queryParameter('tag', 'Repeatable, all tags must match.', { type: 'array', items: { type: 'string' } }),
+        queryParameter('state', "Dot-separated state path, e.g. 'ArbeitsModus.Entitaet'."),
+        queryParameter('anzeigeKontext', 'The active display context.', ref('AnzeigeKontext')),
+        queryParameter('owner', 'Metadata owner (exact match).'),
+        queryParameter('device', 'Metadata device (exact match).'),
+        queryParameter('location', 'Metadata location (exact match).'),
+        queryParameter('idPrefix', 'Prefix of the session IDs.'),
+        queryParameter('limit', 'Maximum number of sessions of the page.', { type: 'integer', minimum: 0 }),
+        queryParameter('offset', 'Number of sessions to skip.', { type: 'integer', minimum: 0 }),
+        queryParameter('cursor', 'The `nextCursor` of the previous page.'),
+        queryParameter('sortBy', 'Sort key (default: createdAt).', { type: 'string', enum: ['sessionId', 'createdAt', 'lastActivityAt'] }),
+        queryParameter('order', 'Sort order (default: asc).', { type: 'string', enum: ['asc', 'desc'] }),
+        queryParameter('fields', "Comma-separated fields of the snapshot, e.g. 'sessionId,currentState,currentFrame'."),
+      ],
+      responses: {
+        200: json('The (matching) sessions.', ref('SessionList')),
+        400: error('Invalid query.'),
+      },
+    },
+  },
+  '/api/session/emergencies': {
+    get: {
+      summary: 'Reports the emergencies of all sessions: how long their confirmation took and their outcome.',
+      parameters: [
+        queryParameter('since', 'Only emergencies received after this time (ISO 8601 or milliseconds since epoch).'),
+        queryParameter('outcome', 'Only emergencies with this outcome.', ref('EmergencyOutcome')),
+      ],
+      responses: {
+        200: json('The emergencies of all sessions (oldest first).', ref('EmergencyReport')),
+        400: error('Invalid query.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}': {
+    post: {
+      summary: 'Creates (or replaces) a session.',
+      parameters: [sessionIdParameter],
+      requestBody: {
+        required: false,
+        content: { 'application/json': { schema: ref('SessionMetadata') } },
+      },
+      responses: {
+        200: json('The session was recreated.', ref('SessionCreated')),
+        201: json('The session was created.', ref('SessionCreated')),
+        400: error('Invalid metadata.'),
+      },
+    },
+    delete: {
+      summary: 'Deletes a session.',
+      parameters: [sessionIdParameter],
+      responses: {
+        200: json('The session was deleted.', { type: 'object', properties: { message: { type: 'string' } } }),
+        404: error('Session not found.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/state': {
+    get: {
+      summary: 'Retrieves the current state of a session.',
+      parameters: [sessionIdParameter],
+      responses: {
+        200: json('The clean snapshot of the session.', ref('CleanSnapshot')),
+        404: error('Session not found.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/stream': {
+    get: {
+      summary: 'Streams every new snapshot of a session as Server-Sent Events.',
+      description: "Events: 'snapshot' (CleanSnapshot), 'heartbeat', 'escalation' ({ sessionId, notfall }) and 'end' ({ sessionId, reason: 'deleted' | 'completed' }).",
+      parameters: [sessionIdParameter],
+      responses: {
+        200: { description: 'The event stream.', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+        404: error('Session not found.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/event': {
+    post: {
+      summary: 'Sends an event to the state machine and reports its outcome.',
+      parameters: [
+        sessionIdParameter,
+        queryParameter('strict', "'true' rejects ignored events with 409.", { type: 'boolean' }),
+      ],
+      requestBody: { required: true, content: { 'application/json': { schema: ref('FrameEvent') } } },
+      responses: {
+        200: json('The snapshot after the event and its outcome.', ref('EventResponse')),
+        400: error('Invalid event or session not found.'),
+        409: json('Strict mode: the event was ignored.', {
+          allOf: [ref('EventResponse'), { type: 'object', properties: { error: { type: 'string' } } }],
+        }),
+        422: json('The payload does not match the event type.', ref('ValidationError')),
+      },
+    },
+  },
+  '/api/session/{sessionId}/events': {
+    post: {
+      summary: 'Sends several events as one atomic batch (all-or-nothing).',
+      parameters: [sessionIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              oneOf: [
+                { type: 'array', items: ref('FrameEvent'), minItems: 1 },
+                { type: 'object', required: ['events'], properties: { events: { type: 'array', items: ref('FrameEvent'), minItems: 1 } } },
+              ],
+            },
+          },
+        },
+      },
+      responses: {
+        200: json('All events were applied.', ref('BatchResult')),
+        400: error('Invalid batch.'),
+        404: error('Session not found.'),
+        409: json('An event was rejected, the batch was rolled back.', ref('BatchResult')),
+        422: json('The payload of an event does not match its type.', ref('ValidationError')),
+      },
+    },
+  },
+  '/api/session/{sessionId}/available-events': {
+    get: {
+      summary: 'Lists the events that would be handled in the current state.',
+      parameters: [sessionIdParameter],
+      responses: {
+        200: json('The available events.', ref('AvailableEvents')),
+        404: error('Session not found.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/history': {
+    get: {
+      summary: 'Retrieves the recorded events (audit log) of a session.',
+      parameters: [
+        sessionIdParameter,
+        queryParameter('limit', 'Only the most recent entries.', { type: 'integer', minimum: 0 }),
+        queryParameter('since', 'Only entries after this time (ISO 8601 or milliseconds since epoch).'),
+      ],
+      responses: {
+        200: json('The history entries (oldest first).', {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string' },
+            count: { type: 'integer' },
+            history: { type: 'array', items: ref('HistoryEntry') },
+          },
+        }),
+        400: error('Invalid query.'),
+        404: error('Session not found.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/emergencies': {
+    get: {
+      summary: 'Retrieves the records of the emergencies a session received.',
+      parameters: [sessionIdParameter],
+      responses: {
+        200: json('The emergency records (oldest first).', {
+          type: 'object',
+          properties: {
+            sessionId: { type: 'string' },
+            count: { type: 'integer' },
+            emergencies: { type: 'array', items: ref('EmergencyRecord') },
+          },
+        }),
+        404: error('Session not found.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/undo': {
+    post: {
+      summary: 'Steps a session back by restoring an earlier snapshot.',
+      parameters: [sessionIdParameter],
+      requestBody: {
+        required: false,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                steps: { type: 'integer', minimum: 1, default: 1 },
+                toSeq: { type: 'integer', minimum: 1, description: 'Restores the snapshot before this history entry.' },
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        200: json('The restored snapshot.', ref('CleanSnapshot')),
+        400: error('Invalid undo request.'),
+        404: error('Session not found.'),
+        409: error('Not enough steps available.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/redo': {
+    post: {
+      summary: 'Re-applies undone steps.',
+      parameters: [sessionIdParameter],
+      requestBody: {
+        required: false,
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { steps: { type: 'integer', minimum: 1, default: 1 } } },
+          },
+        },
+      },
+      responses: {
+        200: json('The restored snapshot.', ref('CleanSnapshot')),
+        400: error('Invalid redo request.'),
+        404: error('Session not found.'),
+        409: error('Not enough steps available.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/lease': {
+    post: {
+      summary: 'Renews (and optionally changes) the idle lease of a session.',
+      parameters: [sessionIdParameter],
+      requestBody: {
+        required: false,
+        content: {
+          'application/json': {
+            schema: { type: 'object', properties: { idleTtlMs: { type: 'number', exclusiveMinimum: 0 } } },
+          },
+        },
+      },
+      responses: {
+        200: json('The snapshot with the new expiry.', ref('CleanSnapshot')),
+        400: error('Invalid lease.'),
+        404: error('Session not found.'),
+      },
+    },
+  },
+  '/api/session/{sessionId}/replay': {
+    post: {
+      summary: 'Rebuilds a session by replaying an event log on a fresh machine.',
+      parameters: [sessionIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { type: 'object', required: ['events'], properties: { events: { type: 'array', items: ref('FrameEvent') } } },
+          },
+        },
+      },
+      responses: {
+        200: json('An existing session was rebuilt in place.', ref('ReplayResponse')),
+        201: json('The session was created.', ref('ReplayResponse')),
+        400: error('Invalid event log.'),
+        422: json('The payload of an event does not match its type.', ref('ValidationError')),
+      },
+    },
+  },
+};
+
+/**
+ * The OpenAPI 3 document of the API.
+ */
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Frame-Management-Service',
+    version: '1.0.0',
+    description:
+      'Manages one XState frame machine per session. '
+      + `Live updates are also available via WebSocket at ${config.wsPath}.`,
+  },
+  paths,
+  components: { schemas },
+};
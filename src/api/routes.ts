@@ -10,6 +10,18 @@ const router = Router();
 // controller functions.
 // ----------------------------------------------------
 
+/**
+ * Returns the OpenAPI document of the API.
+ * GET /api/openapi.json
+ */
+router.get('/openapi.json', controller.getOpenApiDocument);
+
+/**
+ * Sends the same event to all sessions or to the sessions matching a selector.
+ * POST /api/broadcast
+ */
+router.post('/broadcast', controller.broadcastEvent);
+
 /**
  * Creates a new (or replaces an existing) state machine session.
  * POST /api/session/:sessionId
@@ -22,18 +34,78 @@ router.post('/session/:sessionId', controller.createSession);
  */
 router.get('/session/:sessionId/state', controller.getSessionState);
 
+/**
+ * Streams every new snapshot of a session as Server-Sent Events.
+ * GET /api/session/:sessionId/stream
+ */
+router.get('/session/:sessionId/stream', controller.streamSession);
+
 /**
  * Retrieves all active sessions.
  * GET /api/session/sessions
  */
 router.get('/session/sessions', controller.getAllSessions);
 
+/**
+ * Reports the emergencies of all sessions (outcome and confirmation time).
+ * GET /api/session/emergencies
+ */
+router.get('/session/emergencies', controller.getEmergencyReport);
+
 /**
  * Sends an event to the state machine to change the state.
  * POST /api/session/:sessionId/event
  */
 router.post('/session/:sessionId/event', controller.sendEvent);
 
+/**
+ * Sends several events to the state machine as one atomic batch.
+ * POST /api/session/:sessionId/events
+ */
+router.post('/session/:sessionId/events', controller.sendEvents);
+
+/**
+ * Lists the events that would be handled in the current state of a session.
+ * GET /api/session/:sessionId/available-events
+ */
+router.get('/session/:sessionId/available-events', controller.getAvailableEvents);
+
+/**
+ * Retrieves the recorded events (audit log) of a session.
+ * GET /api/session/:sessionId/history
+ */
+router.get('/session/:sessionId/history', controller.getSessionHistory);
+
+/**
+ * Retrieves the records of the emergencies a session received.
+ * GET /api/session/:sessionId/emergencies
+ */
+router.get('/session/:sessionId/emergencies', controller.getSessionEmergencies);
+
+/**
+ * Steps a session back to an earlier snapshot.
+ * POST /api/session/:sessionId/undo
+ */
+router.post('/session/:sessionId/undo', controller.undo);
+
+/**
+ * Re-applies snapshots that were undone before.
+ * POST /api/session/:sessionId/redo
+ */
+router.post('/session/:sessionId/redo', controller.redo);
+
+/**
+ * Extends the lease of a session (resets its idle expiry).
+ * POST /api/session/:sessionId/lease
+ */
+router.post('/session/:sessionId/lease', controller.extendLease);
+
+/**
+ * Rebuilds a session by replaying an ordered event log.
+ * POST /api/session/:sessionId/replay
+ */
+router.post('/session/:sessionId/replay', controller.replaySession);
+
 /**
  * Stops and deletes a session.
  * DELETE /api/session/:sessionId
@@ -0,0 +1,113 @@
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { sessionService } from '../services/session.service';
+import type { SessionNotification } from '../services/session.types';
+import { SessionNotificationTypes } from '../services/session.types';
+import { config } from '../config';
+
+// ----------------------------------------------------
+// WEBSOCKET PUSH CHANNEL
+// Clients subscribe to one or more session IDs and receive
+// every new snapshot of these sessions without polling the REST API.
+// ----------------------------------------------------
+
+// Subscribing to this ID delivers notifications of all sessions
+export const ALL_SESSIONS = '*';
+
+// Messages a client can send to the server
+type ClientMessage = {
+  action: 'subscribe' | 'unsubscribe';
+  sessionIds: string[];
+};
+
+/**
+ * Parses and validates a message received from a client.
+ * @returns The parsed message or `null` if the message is invalid.
+ */
+const parseClientMessage = (data: RawData): ClientMessage | null => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data.toString());
+  } catch {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null) {
+    return null;
+  }
+  const { action, sessionIds } = message as Record<string, unknown>;
+  if (action !== 'subscribe' && action !== 'unsubscribe') {
+    return null;
+  }
+  if (!Array.isArray(sessionIds) || !sessionIds.every((id: unknown): id is string => typeof id === 'string' && id.trim() !== '')) {
+    return null;
+  }
+  return { action, sessionIds };
+};
+
+// Sends a JSON message if the socket is still open
+const send = (socket: WebSocket, message: unknown) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+/**
+ * Handles a single client connection.
+ * Every connection keeps its own set of subscribed session IDs and
+ * registers exactly one listener at the sessionService.
+ */
+const handleConnection = (socket: WebSocket) => {
+  const subscriptions = new Set<string>();
+
+  const isSubscribed = (sessionId: string) =>
+    subscriptions.has(ALL_SESSIONS) || subscriptions.has(sessionId);
+
+  const unsubscribe = sessionService.subscribe((notification: SessionNotification) => {
+    if (isSubscribed(notification.sessionId)) {
+      send(socket, notification);
+    }
+  });
+
+  socket.on('message', (data) => {
+    const message = parseClientMessage(data);
+    if (!message) {
+      send(socket, { type: 'ERROR', error: 'Invalid message. Expected { "action": "subscribe" | "unsubscribe", "sessionIds": string[] }.' });
+      return;
+    }
+
+    if (message.action === 'unsubscribe') {
+      message.sessionIds.forEach((id) => subscriptions.delete(id));
+      send(socket, { type: 'UNSUBSCRIBED', sessionIds: message.sessionIds });
+      return;
+    }
+
+    message.sessionIds.forEach((id) => subscriptions.add(id));
+    send(socket, { type: 'SUBSCRIBED', sessionIds: message.sessionIds });
+
+    // Sends the current snapshot of every already existing session right away,
+    // so the client does not have to wait for the next state change.
+    const snapshots = message.sessionIds.includes(ALL_SESSIONS)
+      ? sessionService.getAllSessions()
+      : message.sessionIds
+          .filter((id) => sessionService.getSession(id) !== undefined)
+          .map((id) => sessionService.getSessionState(id));
+    snapshots.forEach((snapshot) =>
+      send(socket, { type: SessionNotificationTypes.SESSION_SNAPSHOT, sessionId: snapshot.sessionId, snapshot })
+    );
+  });
+
+  socket.on('close', unsubscribe);
+  socket.on('error', unsubscribe);
+};
+
+/**
+ * Attaches the WebSocket endpoint to an existing HTTP server.
+ * @param server The HTTP server returned by app.listen().
+ * @param path The path of the WebSocket endpoint.
+ * @returns The created WebSocketServer.
+ */
+export const attachWebSocketServer = (server: Server, path: string = config.wsPath): WebSocketServer => {
+  const wss = new WebSocketServer({ server, path });
+  wss.on('connection', handleConnection);
+  return wss;
+};
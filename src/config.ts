@@ -1,3 +1,18 @@
+import path from 'path';
+
+// Reads a duration in milliseconds from the environment (0 disables the limit).
+// Invalid values fall back to the default with a warning, NaN would silently disable the limit.
+const durationMs = (name: string, defaultMs: number): number => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return defaultMs;
+  const ms = Number(value);
+  if (!Number.isFinite(ms) || ms < 0) {
+    console.warn(`Invalid ${name} '${value}': expected a non-negative number of milliseconds, using ${defaultMs}.`);
+    return defaultMs;
+  }
+  return ms;
+};
+
 /**
  * Configuration file for the Frame Management Service.
  * Separates configuration (such as ports) from code.
@@ -5,4 +20,30 @@
  */
 export const config = {
   port: process.env.PORT || 3000,
-};
\ No newline at end of file
+  // Path of the WebSocket endpoint that pushes live session snapshots
+  wsPath: process.env.WS_PATH || '/api/ws',
+  // Interval of the heartbeat messages sent on Server-Sent Events streams
+  sseHeartbeatMs: Number(process.env.SSE_HEARTBEAT_MS) || 15000,
+  // Idle time after which a session without events expires (0, the default, disables idle expiry)
+  sessionIdleTtlMs: durationMs('SESSION_IDLE_TTL_MS', 0),
+  // Absolute lifetime of a session, independent of its activity (0, the default, disables it)
+  sessionMaxLifetimeMs: durationMs('SESSION_MAX_LIFETIME_MS', 0),
+  // Interval in which the background sweeper removes expired sessions
+  sessionSweepIntervalMs: Number(process.env.SESSION_SWEEP_INTERVAL_MS) || 60 * 1000,
+  // Maximum number of events kept in the history of each session
+  sessionHistoryLimit: Number(process.env.SESSION_HISTORY_LIMIT) || 200,
+  // Maximum number of transitions per session that can be undone
+  sessionUndoLimit: Number(process.env.SESSION_UNDO_LIMIT) || 50,
+  // JSON-lines file in which sessions are persisted to survive restarts ('' disables persistence)
+  sessionStoreFile: process.env.SESSION_STORE_FILE ?? path.join(process.cwd(), 'data', 'sessions.jsonl'),
+  // Additional list contexts besides ENTITAET and ALLGEMEIN, comma-separated 'NAME' or 'NAME:Substate',
+  // e.g. 'CHECKLISTE,WARTUNG:Wartung'
+  listContexts: (process.env.LIST_CONTEXTS ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+    .map((entry) => {
+      const [name, state] = entry.split(':').map((part) => part.trim());
+      return { name, state: state || undefined };
+    }),
+};
@@ -0,0 +1,100 @@
+import { config } from '../config';
+import type { Frame, FrameContext, ListKontextDefinition } from './machine.types';
+
+// ----------------------------------------------------
+// LIST CONTEXT REGISTRY
+// Describes every list the machine can display: where the list and its index
+// are stored in the context and which substate of ArbeitsModus shows it.
+// Besides ENTITAET, ALLGEMEIN and NOTFALL, additional list contexts
+// can be registered at configuration time (LIST_CONTEXTS).
+// ----------------------------------------------------
+
+/**
+ * Defines a list context known to the machine.
+ */
+export interface RegisteredListKontext {
+  name: string;
+  // Substate of ArbeitsModus, `null` for NOTFALL (shown in NotfallModus)
+  state: string | null;
+  getList: (context: FrameContext) => Frame[];
+  getIndex: (context: FrameContext) => number;
+  // Returns the context updates that store a new list and / or index
+  update: (context: FrameContext, changes: { list?: Frame[]; index?: number }) => Partial<FrameContext>;
+}
+
+export type ListKontextRegistry = ReadonlyMap<string, RegisteredListKontext>;
+
+type ListKey = 'entitaetListe' | 'allgemeineListe' | 'notfallListe';
+type IndexKey = 'aktuellerEntitaetIndex' | 'aktuellerAllgemeinIndex' | 'aktuellerNotfallIndex';
+
+// Built-in list contexts keep their list and index in dedicated context fields
+const builtInKontext = (name: string, state: string | null, listKey: ListKey, indexKey: IndexKey): RegisteredListKontext => ({
+  name,
+  state,
+  getList: (context) => context[listKey],
+  getIndex: (context) => context[indexKey],
+  update: (_context, { list, index }) => ({
+    ...(list !== undefined ? { [listKey]: list } : {}),
+    ...(index !== undefined ? { [indexKey]: index } : {}),
+  }),
+});
+
+// Registered list contexts keep their list and index in `weitereListen` / `weitereIndizes`.
+// Unchanged values keep the maps, so an update without effect does not change the context (like for the built-in ones).
+const registeredKontext = (name: string, state: string): RegisteredListKontext => ({
+  name,
+  state,
+  getList: (context) => context.weitereListen?.[name] ?? [],
+  getIndex: (context) => context.weitereIndizes?.[name] ?? 0,
+  update: (context, { list, index }) => ({
+    ...(list !== undefined && list !== context.weitereListen?.[name]
+      ? { weitereListen: { ...context.weitereListen, [name]: list } }
+      : {}),
+    ...(index !== undefined && index !== context.weitereIndizes?.[name]
+      ? { weitereIndizes: { ...context.weitereIndizes, [name]: index } }
+      : {}),
+  }),
+});
+
+// Names and states that are used by the machine itself
+const RESERVED_NAMES = ['ENTITAET', 'ALLGEMEIN', 'NOTFALL', 'INAKTIV'];
+const RESERVED_STATES = ['Entitaet', 'Allgemein', 'HISTORISCHER_ZUSTAND'];
+
+/**
+ * Creates the registry of all list contexts: the built-in ones plus the given definitions.
+ * @param definitions Additional list contexts, e.g. [{ name: 'CHECKLISTE' }].
+ * @returns The registry by name.
+ * @throws Error if a name or state is invalid or already in use.
+ */
+export const createListKontextRegistry = (definitions: ListKontextDefinition[] = []): ListKontextRegistry => {
+  const registry = new Map<string, RegisteredListKontext>([
+    ['ENTITAET', builtInKontext('ENTITAET', 'Entitaet', 'entitaetListe', 'aktuellerEntitaetIndex')],
+    ['ALLGEMEIN', builtInKontext('ALLGEMEIN', 'Allgemein', 'allgemeineListe', 'aktuellerAllgemeinIndex')],
+    ['NOTFALL', builtInKontext('NOTFALL', null, 'notfallListe', 'aktuellerNotfallIndex')],
+  ]);
+  const states = new Set(RESERVED_STATES);
+
+  for (const { name, state = name.charAt(0) + name.slice(1).toLowerCase() } of definitions) {
+    if (!/^[A-Z][A-Z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid list context '${name}': the name may only contain upper-case letters, digits and underscores.`);
+    }
+    if (RESERVED_NAMES.includes(name) || registry.has(name)) {
+      throw new Error(`Invalid list context '${name}': the name is already in use.`);
+    }
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(state) || states.has(state)) {
+      throw new Error(`Invalid list context '${name}': the state '${state}' is invalid or already in use.`);
+    }
+    registry.set(name, registeredKontext(name, state));
+    states.add(state);
+  }
+  return registry;
+};
+
+/**
+ * Returns the list contexts shown in ArbeitsModus, i.e. all that can be loaded with LADE_NEUE_LISTE.
+ */
+export const getArbeitsKontexte = (registry: ListKontextRegistry): RegisteredListKontext[] =>
+  Array.from(registry.values()).filter((kontext) => kontext.state !== null);
+
+// The registry of the configured list contexts, used by the frame machine of the service
+export const listKontextRegistry = createListKontextRegistry(config.listContexts);
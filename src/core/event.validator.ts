@@ -0,0 +1,218 @@
+import { DIASHOW_MIN_INTERVALL_MS, FrameEventTypes, NavigationsModi, NOTFALL_MIN_TIMEOUT_MS, SuchBereiche, SuchModi, TimeoutModi } from './machine.types';
+import type { FrameEvent } from './machine.types';
+import { getArbeitsKontexte, listKontextRegistry } from './context.registry';
+
+// ----------------------------------------------------
+// EVENT VALIDATION
+// Strict runtime validation of the payload of every FrameEvent,
+// so that malformed events never reach the machine and corrupt its context.
+// ----------------------------------------------------
+
+// Machine-readable reason of a field error
+export type FieldErrorCode = 'required' | 'invalid_type' | 'invalid_value' | 'unknown_field';
+
+/**
+ * Defines a single invalid field of an event.
+ */
+export interface FieldError {
+  // Path of the field, e.g. 'list', 'list[2]' or 'events[1].frameName'
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+}
+
+/**
+ * Thrown when the payload of one or more events is invalid.
+ * `errors` lists every invalid field.
+ */
+export class EventValidationError extends Error {
+  constructor(public readonly errors: FieldError[]) {
+    super(`Invalid input: invalid event payload (${errors.map((e) => `${e.field}: ${e.message}`).join('; ')}).`);
+    this.name = 'EventValidationError';
+  }
+}
+
+// Validates the value of a single payload field
+type FieldValidator = (value: unknown, field: string) => FieldError[];
+
+// Payload fields (everything except 'type') of an event type
+type PayloadOf<T extends FrameEvent['type']> = Omit<Extract<FrameEvent, { type: T }>, 'type'>;
+
+// One validator per payload field for every event type.
+// Derived from the FrameEvent union: the compiler fails if an event or a field is missing.
+type EventSchemas = {
+  [T in FrameEvent['type']]: { [K in keyof PayloadOf<T>]-?: FieldValidator };
+};
+
+// ---- Field Validators ----
+
+const required = (field: string): FieldError[] =>
+  [{ field, code: 'required', message: 'is required' }];
+
+const nonEmptyString: FieldValidator = (value, field) => {
+  if (value === undefined) return required(field);
+  if (typeof value !== 'string') return [{ field, code: 'invalid_type', message: 'must be a string' }];
+  if (value.trim() === '') return [{ field, code: 'invalid_value', message: 'must not be empty' }];
+  return [];
+};
+
+const boolean: FieldValidator = (value, field) => {
+  if (value === undefined) return required(field);
+  if (typeof value !== 'boolean') return [{ field, code: 'invalid_type', message: 'must be a boolean' }];
+  return [];
+};
+
+const integer = (min?: number): FieldValidator => (value, field) => {
+  if (value === undefined) return required(field);
+  if (typeof value !== 'number' || !Number.isInteger(value)) return [{ field, code: 'invalid_type', message: 'must be an integer' }];
+  if (min !== undefined && value < min) return [{ field, code: 'invalid_value', message: `must be at least ${min}` }];
+  return [];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString: FieldValidator = (value, field) =>
+  (value === undefined || typeof value === 'string' ? [] : [{ field, code: 'invalid_type', message: 'must be a string' }]);
+
+const optionalObject: FieldValidator = (value, field) =>
+  (value === undefined || isPlainObject(value) ? [] : [{ field, code: 'invalid_type', message: 'must be an object' }]);
+
+// The fields of a frame object (see Frame), `id` is required, all others optional
+const frameFields: Record<string, FieldValidator> = {
+  id: nonEmptyString,
+  title: optionalString,
+  template: optionalString,
+  payload: optionalObject,
+  metadata: optionalObject,
+};
+
+// A frame is either a plain string or a frame object
+const frame: FieldValidator = (value, field) => {
+  if (typeof value === 'string') return [];
+  if (!isPlainObject(value)) return [{ field, code: 'invalid_type', message: 'must be a string or a frame object' }];
+  const errors = Object.entries(frameFields).flatMap(([key, validate]) => validate(value[key], `${field}.${key}`));
+  for (const key of Object.keys(value)) {
+    if (!(key in frameFields)) {
+      errors.push({ field: `${field}.${key}`, code: 'unknown_field', message: 'is not allowed for a frame' });
+    }
+  }
+  return errors;
+};
+
+const frameList: FieldValidator = (value, field) => {
+  if (value === undefined) return required(field);
+  if (!Array.isArray(value)) return [{ field, code: 'invalid_type', message: 'must be an array of frames' }];
+  return value.flatMap((item, index) => frame(item, `${field}[${index}]`));
+};
+
+const oneOf = (...allowed: string[]): FieldValidator => (value, field) => {
+  if (value === undefined) return required(field);
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    return [{ field, code: 'invalid_value', message: `must be one of: ${allowed.join(', ')}` }];
+  }
+  return [];
+};
+
+// Accepts a missing value, validates it otherwise
+const optional = (validate: FieldValidator): FieldValidator => (value, field) =>
+  (value === undefined ? [] : validate(value, field));
+
+// ---- Schemas ----
+
+// The list contexts that can be loaded and edited (ENTITAET, ALLGEMEIN and the registered ones)
+const listKontext = oneOf(...getArbeitsKontexte(listKontextRegistry).map((kontext) => kontext.name));
+
+export const eventSchemas: EventSchemas = {
+  // Lifecycle events
+  [FrameEventTypes.SCHLIESSEN]: {},
+  [FrameEventTypes.ZURUCKSETZEN]: {},
+  [FrameEventTypes.AUSSCHALTEN]: {},
+
+  // Navigation events
+  [FrameEventTypes.NAECHSTER_FRAME]: {},
+  [FrameEventTypes.VORHERIGER_FRAME]: {},
+  [FrameEventTypes.SUCHE_FRAME]: {
+    frameName: nonEmptyString,
+    match: optional(oneOf(...SuchModi)),
+    scope: optional(oneOf(...SuchBereiche)),
+    next: optional(boolean),
+  },
+  [FrameEventTypes.ERSTER_FRAME]: {},
+  [FrameEventTypes.LETZTER_FRAME]: {},
+  // Whether the index lies within the active list is checked by the machine (guard isJumpTargetInRange)
+  [FrameEventTypes.SPRINGE_ZU_INDEX]: { index: integer(0) },
+  [FrameEventTypes.SPRINGE_UM_OFFSET]: { offset: integer() },
+
+  // Emergency events
+  // Emergencies without ID get a generated one, the default priority is 0
+  [FrameEventTypes.NOTFALL_EMPFANGEN]: {
+    list: frameList,
+    navigation: optional(oneOf(...NavigationsModi)),
+    id: optional(nonEmptyString),
+    priority: optional(integer(0)),
+    timeoutMs: optional(integer(NOTFALL_MIN_TIMEOUT_MS)),
+    onTimeout: optional(oneOf(...TimeoutModi)),
+  },
+  [FrameEventTypes.USER_BESTAETIGT_NOTFALL]: {
+    accepted: boolean,
+    user: optional(nonEmptyString),
+    comment: optionalString,
+  },
+
+  // Data events
+  [FrameEventTypes.LADE_NEUE_LISTE]: {
+    list: frameList,
+    context: listKontext,
+    navigation: optional(oneOf(...NavigationsModi)),
+  },
+  // Whether the position or the frame exists in the list is checked by the machine (guard isListEditValid)
+  [FrameEventTypes.FRAMES_ANHAENGEN]: { context: listKontext, list: frameList },
+  [FrameEventTypes.FRAMES_EINFUEGEN]: { context: listKontext, index: integer(0), list: frameList },
+  [FrameEventTypes.FRAME_ENTFERNEN]: { context: listKontext, frameId: nonEmptyString },
+  [FrameEventTypes.FRAME_VERSCHIEBEN]: { context: listKontext, frameId: nonEmptyString, toIndex: integer(0) },
+
+  // Slideshow events
+  [FrameEventTypes.DIASHOW_STARTEN]: { intervalMs: optional(integer(DIASHOW_MIN_INTERVALL_MS)) },
+  [FrameEventTypes.DIASHOW_PAUSIEREN]: {},
+  [FrameEventTypes.DIASHOW_STOPPEN]: {},
+};
+
+/**
+ * Validates an event against the schema of its type.
+ * Unknown fields are rejected as well.
+ * @param event The (untrusted) event, e.g. a request body.
+ * @param prefix Prefix of the reported field paths, e.g. 'events[1].'.
+ * @returns All field errors, an empty list if the event is valid.
+ */
+export const validateFrameEvent = (event: unknown, prefix = ''): FieldError[] => {
+  if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+    return [{ field: prefix.replace(/\.$/, '') || 'event', code: 'invalid_type', message: 'must be an object' }];
+  }
+  const { type, ...payload } = event as Record<string, unknown>;
+  if (type === undefined) return required(`${prefix}type`);
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(eventSchemas, type)) {
+    return [{ field: `${prefix}type`, code: 'invalid_value', message: 'is not a known event type' }];
+  }
+
+  const schema = eventSchemas[type as FrameEvent['type']] as Record<string, FieldValidator>;
+  const errors = Object.entries(schema).flatMap(([field, validate]) => validate(payload[field], `${prefix}${field}`));
+  for (const field of Object.keys(payload)) {
+    if (!(field in schema)) {
+      errors.push({ field: `${prefix}${field}`, code: 'unknown_field', message: `is not allowed for ${type}` });
+    }
+  }
+  return errors;
+};
+
+/**
+ * Throws an EventValidationError if the event is invalid.
+ * @param event The (untrusted) event.
+ * @param prefix Prefix of the reported field paths.
+ */
+export function assertValidFrameEvent(event: unknown, prefix = ''): asserts event is FrameEvent {
+  const errors = validateFrameEvent(event, prefix);
+  if (errors.length > 0) {
+    throw new EventValidationError(errors);
+  }
+}
@@ -1,9 +1,117 @@
-import { setup, assign, raise } from 'xstate';
-import type { FrameContext, FrameMachineDefinition } from './machine.types';
+import { setup, assign, raise, and, enqueueActions, cancel } from 'xstate';
+import type {
+  Frame,
+  FrameContext,
+  FrameEvent,
+  FrameInput,
+  FrameMachineDefinition,
+  InternesFrameEvent,
+  SuchErgebnis,
+  SuchModus,
+  TimeoutModus,
+  WartenderNotfall,
+} from './machine.types';
+import { getArbeitsKontexte, listKontextRegistry } from './context.registry';
+import type { ListKontextRegistry } from './context.registry';
 
 // Frame fallback constants
-const LEERER_FRAME = 'LEERER_FRAME';
-const BESTAETIGUNG_FRAME = 'BESTAETIGUNG_FRAME';
+export const LEERER_FRAME: Frame = { id: 'LEERER_FRAME', title: 'LEERER_FRAME' };
+export const BESTAETIGUNG_FRAME: Frame = { id: 'BESTAETIGUNG_FRAME', title: 'BESTAETIGUNG_FRAME' };
+
+/**
+ * Converts a frame as sent by a client into a frame object.
+ * Plain strings are used as ID and title, a missing title defaults to the ID.
+ */
+export const toFrame = (input: FrameInput): Frame => {
+  if (typeof input === 'string') {
+    return { id: input, title: input };
+  }
+  return { ...input, title: input.title ?? input.id };
+};
+
+// Compares an ID or title with the search term according to the search mode
+const matches = (value: string, term: string, match: SuchModus): boolean => {
+  if (match === 'EXACT') return value === term;
+  const lowerValue = value.toLowerCase();
+  const lowerTerm = term.toLowerCase();
+  switch (match) {
+    case 'IGNORE_CASE':
+      return lowerValue === lowerTerm;
+    case 'PREFIX':
+      return lowerValue.startsWith(lowerTerm);
+    default:
+      return lowerValue.includes(lowerTerm);
+  }
+};
+
+// Converts NOTFALL_EMPFANGEN into an emergency, the default ID counts the emergencies of the session
+const toNotfall = (context: FrameContext, event: Extract<FrameEvent, { type: 'NOTFALL_EMPFANGEN' }>): WartenderNotfall => ({
+  id: event.id ?? `NOTFALL-${context.notfallZaehler + 1}`,
+  priority: event.priority ?? 0,
+  list: event.list.map(toFrame),
+  navigation: event.navigation ?? 'STOP',
+  index: 0,
+  ...(event.timeoutMs !== undefined ? { timeoutMs: event.timeoutMs, onTimeout: event.onTimeout ?? 'ESCALATE' } : {}),
+});
+
+// Inserts an emergency into the queue by priority and replaces a queued emergency with the same ID.
+// Within the same priority it is queued last, or first if it was preempted (`ahead`).
+const enqueueNotfall = (queue: WartenderNotfall[], notfall: WartenderNotfall, ahead = false): WartenderNotfall[] => {
+  const rest = queue.filter((queued) => queued.id !== notfall.id);
+  const position = rest.findIndex((queued) => (ahead ? queued.priority <= notfall.priority : queued.priority < notfall.priority));
+  return position === -1 ? [...rest, notfall] : [...rest.slice(0, position), notfall, ...rest.slice(position)];
+};
+
+// Displays an emergency, starting with its confirmation
+const activateNotfall = (context: FrameContext, { list, navigation, index, ...notfall }: WartenderNotfall): Partial<FrameContext> => ({
+  aktiverNotfall: notfall,
+  notfallListe: list,
+  aktuellerNotfallIndex: index,
+  navigationsModi: { ...context.navigationsModi, NOTFALL: navigation },
+  navigationsRichtungen: { ...context.navigationsRichtungen, NOTFALL: 1 },
+  bestaetigung: null,
+  anzeigeKontext: 'NOTFALL',
+  aktuellerFrame: BESTAETIGUNG_FRAME,
+});
+
+/**
+ * Searches a frame for SUCHE_FRAME, first by ID and then by title.
+ * The active list is searched first (with `next` starting after the current frame and wrapping around),
+ * with scope ALL followed by the other lists of ArbeitsModus in registry order.
+ * In NotfallModus only the emergency list is searched.
+ * @param context The context of the machine.
+ * @param search The SUCHE_FRAME event.
+ * @param registry The list contexts of the machine.
+ * @returns The hit or `{ found: false }`.
+ */
+export const findFrame = (
+  context: FrameContext,
+  search: Extract<FrameEvent, { type: 'SUCHE_FRAME' }>,
+  registry: ListKontextRegistry = listKontextRegistry,
+): SuchErgebnis => {
+  const active = registry.get(context.anzeigeKontext);
+  if (!active) return { found: false };
+
+  // All candidates in search order
+  const activeList = active.getList(context);
+  const activeIndex = active.getIndex(context);
+  const start = search.next ? activeIndex + 1 : 0;
+  const candidates = activeList.slice(start).map((frame, offset) => ({ kontext: active.name, index: start + offset, frame }));
+  if (search.scope === 'ALL' && active.state !== null) {
+    for (const kontext of getArbeitsKontexte(registry)) {
+      if (kontext === active) continue;
+      candidates.push(...kontext.getList(context).map((frame, index) => ({ kontext: kontext.name, index, frame })));
+    }
+  }
+  candidates.push(...activeList.slice(0, start).map((frame, index) => ({ kontext: active.name, index, frame })));
+
+  const match = search.match ?? 'EXACT';
+  for (const matchedBy of ['id', 'title'] as const) {
+    const hit = candidates.find((candidate) => matches(candidate.frame[matchedBy], search.frameName, match));
+    if (hit) return { found: true, ...hit, matchedBy };
+  }
+  return { found: false };
+};
 
 // ----------------------------------------------------
 // FRAME STATE MACHINE DEFINITION
@@ -22,337 +130,660 @@ export const initialContext: FrameContext = {
   aktuellerEntitaetIndex: 0,
   aktuellerAllgemeinIndex: 0,
   aktuellerNotfallIndex: 0,
+  weitereListen: {},
+  weitereIndizes: {},
+  navigationsModi: {},
+  navigationsRichtungen: {},
+  diashow: {},
+  aktiverNotfall: null,
+  notfallWarteschlange: [],
+  notfallZaehler: 0,
+  bestaetigung: null,
   anzeigeKontext: 'INAKTIV',
-  aktuellerFrame: '',
+  aktuellerFrame: LEERER_FRAME,
   herkunftsZustand: 'Inaktiv', // Tracks the source state for emergency mode logic
 };
 
-// Helper function to get the active context based on anzeigeKontext
-const getActiveContext = (context: FrameContext) => {
-  switch (context.anzeigeKontext) {
-    case 'ENTITAET':
-      return {
-        list: context.entitaetListe,
-        index: context.aktuellerEntitaetIndex,
-        key: 'aktuellerEntitaetIndex' as const
-      };
-    case 'ALLGEMEIN':
-      return {
-        list: context.allgemeineListe,
-        index: context.aktuellerAllgemeinIndex,
-        key: 'aktuellerAllgemeinIndex' as const
-      };
-    case 'NOTFALL':
-      return {
-        list: context.notfallListe,
-        index: context.aktuellerNotfallIndex,
-        key: 'aktuellerNotfallIndex' as const
-      };
-    default:
-      return null;
-  }
-};
-
 /**
  * 2. State Machine Creation with XState 5 setup()
- * and Definition of Actions, Guards and Types
+ * and Definition of Actions, Guards and Types.
+ * The substates of ArbeitsModus are created from the list context registry,
+ * one substate per list context that can be loaded with LADE_NEUE_LISTE.
+ * @param registry The list contexts of the machine (default: the configured ones).
+ * @param now The current time used for the confirmation deadlines (default: Date.now),
+ * e.g. `() => clock.now()` for an Actor created with a SimulatedClock.
  */
-export const frameMachine = setup({
-  // Type safety, defines types for context, events and machine structure
-  types: {} as FrameMachineDefinition,
-
-  // ---- Actions ----
-  // Actions update the context or perform side effects
-  actions: {
-    // ---- Context Update Actions ----
-    // Loads a new list into the context and resets the index
-    setNewList: assign(({ event }) => {
-      if (event.type !== 'LADE_NEUE_LISTE') return {};
-
-      const updates: Partial<FrameContext> = {};
-      const firstFrame = event.list[0] ?? LEERER_FRAME;
-
-      if (event.context === 'ENTITAET') {
-        updates.entitaetListe = event.list;
-        updates.aktuellerEntitaetIndex = 0;
-        updates.aktuellerFrame = firstFrame;
-      } 
-      else if (event.context === 'ALLGEMEIN') {
-        updates.allgemeineListe = event.list;
-        updates.aktuellerAllgemeinIndex = 0;
-        updates.aktuellerFrame = firstFrame;
-      } 
-      else {
-        updates.aktuellerFrame = firstFrame;
+export const createFrameMachine = (registry: ListKontextRegistry = listKontextRegistry, now: () => number = () => Date.now()) => {
+  const arbeitsKontexte = getArbeitsKontexte(registry);
+
+  // Helper function to get the active list, its index and its registry entry based on anzeigeKontext
+  const getActiveContext = (context: FrameContext) => {
+    const kontext = registry.get(context.anzeigeKontext);
+    if (!kontext) return null;
+    return {
+      list: kontext.getList(context),
+      index: kontext.getIndex(context),
+      kontext,
+    };
+  };
+
+  // Returns the index NAECHSTER_FRAME (delta 1) or VORHERIGER_FRAME (delta -1) navigates to
+  // according to the navigation mode of the active list and the resulting direction,
+  // `null` if there is no other frame to navigate to.
+  const getNavigationTarget = (context: FrameContext, delta: 1 | -1) => {
+    const active = getActiveContext(context);
+    if (!active || active.list.length < 2) return null;
+
+    const { name } = active.kontext;
+    const richtung = context.navigationsRichtungen?.[name] ?? 1;
+    const length = active.list.length;
+
+    switch (context.navigationsModi?.[name] ?? 'STOP') {
+      case 'WRAP':
+        return { index: (active.index + delta + length) % length, richtung };
+      case 'BOUNCE': {
+        // Moves in the current direction, at the ends of the list the direction is reversed
+        const step = delta * richtung;
+        const index = active.index + step;
+        if (index < 0 || index >= length) {
+          return { index: active.index - step, richtung: -richtung as 1 | -1 };
+        }
+        return { index, richtung };
+      }
+      default: {
+        const index = active.index + delta;
+        if (index < 0 || index >= length) return null;
+        return { index, richtung };
       }
+    }
+  };
 
-      return updates;
-    }),
-    // Initializes emergency mode with the provided emergency list
-    initNotfallModus: assign(({ event }) => {
-      if (event.type !== 'NOTFALL_EMPFANGEN') return {};
-      
-      return {
-        notfallListe: event.list,
-        aktuellerNotfallIndex: 0,
-        anzeigeKontext: 'NOTFALL', 
-        aktuellerFrame: BESTAETIGUNG_FRAME
-      };
-    }),
-    // ---- Frame Navigation Actions ----
-    // Navigates to next/previous frames by updating indices
-    frameNavigation: assign(({ context, event }) => {
-      const delta = event.type === 'NAECHSTER_FRAME' ? 1 : -1;
-      const active = getActiveContext(context);
-
-      if (!active) return {}; 
-
-      const newIndex = active.index + delta;
-
-      // Boundary check
-      if (newIndex < 0 || newIndex >= active.list.length) return {};
-
-      return {
-        [active.key]: newIndex,
-        aktuellerFrame: active.list[newIndex]
-      };
-    }),
-    // Searches for a frame in the current list and updates the index and frame if found
-    searchFrame: assign(({ context, event }) => {
-      if (event.type !== 'SUCHE_FRAME') return {};
-      
-      const active = getActiveContext(context);
-      if (!active) return {};
+  // Returns the index a jump event (ERSTER_FRAME, LETZTER_FRAME, SPRINGE_ZU_INDEX, SPRINGE_UM_OFFSET) targets,
+  // `null` if the index is outside of the active list. Jumps never wrap, regardless of the navigation mode.
+  const getJumpTarget = (context: FrameContext, event: FrameEvent | InternesFrameEvent) => {
+    const active = getActiveContext(context);
+    if (!active) return null;
 
-      const foundIndex = active.list.indexOf(event.frameName);
+    let index: number;
+    switch (event.type) {
+      case 'ERSTER_FRAME':
+        index = 0;
+        break;
+      case 'LETZTER_FRAME':
+        index = active.list.length - 1;
+        break;
+      case 'SPRINGE_ZU_INDEX':
+        index = event.index;
+        break;
+      case 'SPRINGE_UM_OFFSET':
+        index = active.index + event.offset;
+        break;
+      default:
+        return null;
+    }
+    return Number.isInteger(index) && index >= 0 && index < active.list.length ? index : null;
+  };
 
-      if (foundIndex !== -1) {
+  // Returns the list context, the list and the index an editing event (FRAMES_ANHAENGEN, FRAMES_EINFUEGEN,
+  // FRAME_ENTFERNEN, FRAME_VERSCHIEBEN) results in, `null` if it changes nothing or its position or frame does not exist.
+  // The index keeps pointing at the current frame. A removed current frame is replaced by the following one,
+  // at the end of the list by the previous one.
+  const getListEdit = (context: FrameContext, event: FrameEvent | InternesFrameEvent) => {
+    if (event.type !== 'FRAMES_ANHAENGEN' && event.type !== 'FRAMES_EINFUEGEN'
+        && event.type !== 'FRAME_ENTFERNEN' && event.type !== 'FRAME_VERSCHIEBEN') return null;
+    const kontext = registry.get(event.context);
+    if (!kontext || kontext.state === null) return null;
+
+    const list = kontext.getList(context);
+    const index = kontext.getIndex(context);
+    switch (event.type) {
+      case 'FRAMES_ANHAENGEN':
+        if (event.list.length === 0) return null;
+        return { kontext, list: [...list, ...event.list.map(toFrame)], index };
+      case 'FRAMES_EINFUEGEN': {
+        if (event.list.length === 0 || event.index > list.length) return null;
+        const frames = event.list.map(toFrame);
         return {
-          [active.key]: foundIndex,
-          aktuellerFrame: active.list[foundIndex]
+          kontext,
+          list: [...list.slice(0, event.index), ...frames, ...list.slice(event.index)],
+          // Frames inserted before (or at the position of) the current frame move it back
+          index: list.length > 0 && event.index <= index ? index + frames.length : index,
         };
       }
-      return {}; 
-    }),
-    // ---- Frame Send Actions ----
-    // Sets the current frame based on the active context
-    setAktuellerFrame: assign({
-      aktuellerFrame: ({ context }) => {
-        const active = getActiveContext(context);
-        if (!active || !active.list[active.index]) return LEERER_FRAME;
-        return active.list[active.index];
+      case 'FRAME_ENTFERNEN': {
+        const position = list.findIndex((frame) => frame.id === event.frameId);
+        if (position === -1) return null;
+        const rest = list.filter((_, i) => i !== position);
+        return { kontext, list: rest, index: position < index ? index - 1 : Math.max(0, Math.min(index, rest.length - 1)) };
       }
-    }),
-    sendBestaetigungFrame: assign(() => ({ aktuellerFrame: BESTAETIGUNG_FRAME })),
-    sendLeererFrame: assign({ aktuellerFrame: LEERER_FRAME }),
-  },
-  
-  // ---- Guards ----
-  // Conditions that control transitions based on context and events
-  guards: {
-    "herkunftIstArbeitsModus": ({ context }) => 
-      context.herkunftsZustand === 'ArbeitsModus',
-    "herkunftIsInaktiv": ({ context }) => 
-      context.herkunftsZustand === 'Inaktiv',
-    "isEntitaetKontext": ({ event }) => 
-      event.type === 'LADE_NEUE_LISTE' && event.context === 'ENTITAET',
-    "isAllgemeinKontext": ({ event }) => 
-      event.type === 'LADE_NEUE_LISTE' && event.context === 'ALLGEMEIN',
-    "isSameAnzeigeKontext": ({ context, event }) => {
-      if (event.type !== 'LADE_NEUE_LISTE') return false;
-      return context.anzeigeKontext === event.context;
-    },
-    "isAntwortTrue": ({ event }) => 
-      event.type === 'USER_BESTAETIGT_NOTFALL' && event.accepted === true,
-    "hasNextFrame": ({ context }) => {
-      const active = getActiveContext(context);
-      if (!active || !active.list.length) return false;
-      return active.index < active.list.length - 1;
-    },
-    "hasPreviousFrame": ({ context }) => {
-      const active = getActiveContext(context);
-      if (!active || !active.list.length) return false;
-      return active.index > 0;
+      default: {
+        const position = list.findIndex((frame) => frame.id === event.frameId);
+        if (position === -1 || event.toIndex >= list.length || event.toIndex === position) return null;
+        const rest = list.filter((_, i) => i !== position);
+        let target = position === index ? event.toIndex : index;
+        if (position !== index) {
+          if (position < index) target--;
+          if (event.toIndex <= target) target++;
+        }
+        return { kontext, list: [...rest.slice(0, event.toIndex), list[position], ...rest.slice(event.toIndex)], index: target };
+      }
+    }
+  };
+
+  // Slideshow of the displayed list, `undefined` if it has none
+  const getDiashow = (context: FrameContext) => context.diashow?.[context.anzeigeKontext];
+
+  // Slideshow events re-enter the substate of the list: the exit cancels the scheduled frame change,
+  // the entry schedules it again according to the new slideshow status
+  const diashowTransition = (kontext: (typeof arbeitsKontexte)[number], guard: 'isDiashowStartbar' | 'isDiashowAktiv' | 'hasDiashow', action: 'startDiashow' | 'pauseDiashow' | 'stopDiashow') => ({
+    guard,
+    target: `${kontext.state}`,
+    reenter: true,
+    actions: action,
+  });
+
+  // LADE_NEUE_LISTE transitions into the substates of the given list contexts
+  const ladeTransitions = (kontexte: typeof arbeitsKontexte, targetPrefix: string) =>
+    kontexte.map((kontext) => ({
+      guard: { type: 'isListKontext' as const, params: { name: kontext.name } },
+      target: `${targetPrefix}${kontext.state}`,
+      actions: 'setNewList' as const,
+    }));
+
+  return setup({
+    // Type safety, defines types for context, events and machine structure
+    types: {} as FrameMachineDefinition,
+
+    // ---- Actions ----
+    // Actions update the context or perform side effects
+    actions: {
+      // ---- Context Update Actions ----
+      // Loads a new list into the context and resets the index
+      // A new list also ends the slideshow of its list context
+      setNewList: assign(({ context, event }) => {
+        if (event.type !== 'LADE_NEUE_LISTE') return {};
+
+        const list = event.list.map(toFrame);
+        const kontext = registry.get(event.context);
+        const { [event.context]: _, ...diashow } = context.diashow;
+
+        return {
+          ...kontext?.update(context, { list, index: 0 }),
+          navigationsModi: { ...context.navigationsModi, [event.context]: event.navigation ?? 'STOP' },
+          navigationsRichtungen: { ...context.navigationsRichtungen, [event.context]: 1 },
+          ...(event.context in context.diashow ? { diashow } : {}),
+          aktuellerFrame: list[0] ?? LEERER_FRAME,
+        };
+      }),
+      // Edits a list without reloading it (see getListEdit), the displayed frame follows the index of the displayed list
+      editList: assign(({ context, event }) => {
+        const edit = getListEdit(context, event);
+        if (!edit) return {};
+
+        return {
+          ...edit.kontext.update(context, { list: edit.list, index: edit.index }),
+          ...(context.anzeigeKontext === edit.kontext.name ? { aktuellerFrame: edit.list[edit.index] ?? LEERER_FRAME } : {}),
+        };
+      }),
+      // Sets the display context when a substate of ArbeitsModus is entered
+      setAnzeigeKontext: assign((_, params: { name: string }) => ({ anzeigeKontext: params.name })),
+      // Initializes emergency mode with the provided emergency list.
+      // A preempted emergency is queued again and later resumed at its current frame.
+      initNotfallModus: assign(({ context, event }) => {
+        if (event.type !== 'NOTFALL_EMPFANGEN') return {};
+
+        const notfall = toNotfall(context, event);
+        const preempted = context.aktiverNotfall;
+        const queue = preempted && preempted.id !== notfall.id
+          ? enqueueNotfall(context.notfallWarteschlange, {
+            ...preempted,
+            list: context.notfallListe,
+            navigation: context.navigationsModi.NOTFALL ?? 'STOP',
+            index: context.aktuellerNotfallIndex,
+          }, true)
+          : context.notfallWarteschlange;
+
+        return {
+          ...activateNotfall(context, notfall),
+          notfallWarteschlange: queue.filter((queued) => queued.id !== notfall.id),
+          notfallZaehler: context.notfallZaehler + 1,
+        };
+      }),
+      // Queues an emergency that does not preempt the displayed one
+      queueNotfall: assign(({ context, event }) => {
+        if (event.type !== 'NOTFALL_EMPFANGEN') return {};
+
+        return {
+          notfallWarteschlange: enqueueNotfall(context.notfallWarteschlange, toNotfall(context, event)),
+          notfallZaehler: context.notfallZaehler + 1,
+        };
+      }),
+      // Displays the next emergency of the queue
+      nextNotfall: assign(({ context }) => {
+        const [next, ...rest] = context.notfallWarteschlange;
+        if (!next) return {};
+        return { ...activateNotfall(context, next), notfallWarteschlange: rest };
+      }),
+      endNotfall: assign({ aktiverNotfall: null, bestaetigung: null }),
+      // ---- Confirmation Timeout Actions ----
+      // Sets the deadline of the confirmation if the emergency has a timeout.
+      // A restored deadline is kept (TIMER_FORTSETZEN), an escalated confirmation has none.
+      startBestaetigung: assign(({ context }) => {
+        const timeoutMs = context.aktiverNotfall?.timeoutMs;
+        const bestaetigung = context.bestaetigung;
+        if (timeoutMs === undefined || bestaetigung?.frist || bestaetigung?.eskaliert) return {};
+        return { bestaetigung: { frist: now() + timeoutMs, erinnerungen: bestaetigung?.erinnerungen ?? 0, eskaliert: false } };
+      }),
+      // Requests the confirmation again, the entry of Bestaetigen sets the new deadline
+      repromptNotfall: assign(({ context }) => ({
+        bestaetigung: { frist: null, erinnerungen: (context.bestaetigung?.erinnerungen ?? 0) + 1, eskaliert: false },
+      })),
+      // Marks the confirmation as escalated, the service publishes the escalation notification
+      escalateNotfall: assign(({ context }) => ({
+        bestaetigung: { frist: null, erinnerungen: context.bestaetigung?.erinnerungen ?? 0, eskaliert: true },
+      })),
+      endBestaetigung: assign({ bestaetigung: null }),
+      // ---- Frame Navigation Actions ----
+      // Navigates to next/previous frames by updating indices (according to the navigation mode of the list).
+      // The slideshow navigates like NAECHSTER_FRAME.
+      frameNavigation: assign(({ context, event }) => {
+        const delta = event.type === 'VORHERIGER_FRAME' ? -1 : 1;
+        const active = getActiveContext(context);
+        const target = getNavigationTarget(context, delta);
+
+        // Boundary check
+        if (!active || !target) return {}; 
+
+        const { name } = active.kontext;
+        return {
+          ...active.kontext.update(context, { index: target.index }),
+          // The direction only changes when BOUNCE reverses it
+          ...(target.richtung !== (context.navigationsRichtungen?.[name] ?? 1)
+            ? { navigationsRichtungen: { ...context.navigationsRichtungen, [name]: target.richtung } }
+            : {}),
+          aktuellerFrame: active.list[target.index]
+        };
+      }),
+      // Jumps to the first, the last, an absolute or a relative frame of the current list
+      jumpToFrame: assign(({ context, event }) => {
+        const active = getActiveContext(context);
+        const index = getJumpTarget(context, event);
+        if (!active || index === null) return {};
+
+        return {
+          ...active.kontext.update(context, { index }),
+          aktuellerFrame: active.list[index]
+        };
+      }),
+      // Searches for a frame (see findFrame) and updates the index and frame of the list it was found in
+      searchFrame: assign(({ context, event }) => {
+        if (event.type !== 'SUCHE_FRAME') return {};
+      
+        const result = findFrame(context, event, registry);
+        const kontext = result.found ? registry.get(result.kontext) : undefined;
+        if (!result.found || !kontext) return {};
+
+        return {
+          ...kontext.update(context, { index: result.index }),
+          aktuellerFrame: result.frame
+        };
+      }),
+      // ---- Slideshow Actions ----
+      // Starts the slideshow of the displayed list, or resumes it with its previous interval
+      startDiashow: assign(({ context, event }) => {
+        const intervalMs = event.type === 'DIASHOW_STARTEN' ? event.intervalMs ?? getDiashow(context)?.intervalMs : undefined;
+        if (intervalMs === undefined) return {};
+        return { diashow: { ...context.diashow, [context.anzeigeKontext]: { intervalMs, status: 'LAEUFT' as const } } };
+      }),
+      pauseDiashow: assign(({ context }) => {
+        const diashow = getDiashow(context);
+        if (!diashow) return {};
+        return { diashow: { ...context.diashow, [context.anzeigeKontext]: { ...diashow, status: 'PAUSIERT' as const } } };
+      }),
+      // Removes the slideshow of the displayed list (DIASHOW_STOPPEN or the end of a list with STOP)
+      stopDiashow: assign(({ context }) => {
+        const { [context.anzeigeKontext]: _, ...diashow } = context.diashow;
+        return { diashow };
+      }),
+      // Schedules the next frame change if the slideshow of the displayed list is running
+      planeDiashow: enqueueActions(({ context, enqueue }) => {
+        const diashow = getDiashow(context);
+        if (diashow?.status === 'LAEUFT') {
+          enqueue.raise({ type: 'DIASHOW_WEITER' }, { id: 'diashow', delay: diashow.intervalMs });
+        }
+      }),
+      beendeDiashowTimer: cancel('diashow'),
+      // Schedules the timeout of the confirmation for the time left until its deadline, no timer without a deadline
+      planeBestaetigung: enqueueActions(({ context, enqueue }) => {
+        const frist = context.bestaetigung?.frist;
+        if (frist) {
+          enqueue.raise({ type: 'BESTAETIGUNG_ABGELAUFEN' }, { id: 'bestaetigung', delay: Math.max(0, frist - now()) });
+        }
+      }),
+      beendeBestaetigungsTimer: cancel('bestaetigung'),
+      // ---- Frame Send Actions ----
+      // Sets the current frame based on the active context
+      setAktuellerFrame: assign({
+        aktuellerFrame: ({ context }) => {
+          const active = getActiveContext(context);
+          if (!active || !active.list[active.index]) return LEERER_FRAME;
+          return active.list[active.index];
+        }
+      }),
+      sendBestaetigungFrame: assign(() => ({ aktuellerFrame: BESTAETIGUNG_FRAME })),
+      sendLeererFrame: assign({ aktuellerFrame: LEERER_FRAME }),
     },
-  },
-
-  /**
-   * 3. Machine Definition
-   * Defines states, transitions and global events
-   */
-}).createMachine({
-    /** @xstate-layout N4IgpgJg5mDOIC5QDMBOBDAtmAsugxgBYCWAdmAMQByA8gCoBiAggDIsD6AojgArNUBxTlQDaABgC6iUAAcA9rGIAXYnNLSQAD0QBmAOwBOAHQ6AbGIM6DpgKxiALAZs6ANCACeiALQAmU6aN7MRsARnMQuz0fMR8dAF84tzQsXAIScgoALQBVACVsgGEAaQBlTjpM4XEpJBB5RRU1DW0EMPsQkwMxPQj-Hps9Vw9vP3sjHx89Q0mZkKd7BKSMbDwiMjAjAElSdABrFQA3ChYmABFOdipObIuWTZK6TmqNeuVVdVqWkLmfIxixYIADnac0cNjcngQdj+pnszh0Om67URC0SIGSKzS6y2O32xCOJ3Ol2ut3ujxEIRqsgUbyan0QIT09j0RlMIR0wPmPkZph8EMQ0LEsPhiKZ7O6i3Ry1Sa3IOL2hwoTGyJRKBQAEqxHqJJC8aY0PqAvoCnCYQhYrMF7IDgfyEF4bYEfPZeSFkQMuqZJRiZekNkxUAAjMDKWA4OQQACusAoavVd04qqqutqrwNzQZbOMUQm4uihiZdpCgICeit7MBVh6gNi3ulqz9RgDwdD4ajMZKhXVFwYuSYOCeKepDXeGda9j8f1iAMZ1Zddr0bPGxdMlZssR0PzrKQb2ObIaUYYj0eoTE4GoenFy7F7-cHVLq+tH9NaBm+RmLNgMEz0JqsEQXJduRLNcNzmeI0R9Xc5X3VtjxjAA1Ghcm7XJNiEa9bwHZ5UyfOkjUzZlAlXOEfBrEIfFCPQ7UBaF7DMMsHDEfQ3wMbdMVlf0gwPI922OM4LiuG52DuS8cOHWlDS0BkLBZHwDEsGJK2tSwaLohiASCFi5nY30924uD2yMThSBUJR0DAJR+KJITSTEodHxHfDpNaKwxlMNybDsHQv3XUw7XMHQjG-YCbGtL9-C9SD6yxGCDMPNtoybAAbZKYGwMhrMEkkRLJe89ScqSvg5YxnEXJxK2sCK7W88YmO6CiJyiCClh3WKNioOQlGQdBUsSjsNQTJMdQfNNnwIqFrHGewggiWigVMajhntX9AkcWwFLI75BhCXToI6rqer6+DY0GzZEzKURKQKySx3CIwbEBKZHAo2IJjtLwKMBYKdEmUwnGY3N-D29qjE67reuS-qjAAITgczLOIGBSAoFUr3YGHEzoM86HQuhLnoZg2HExzbpfeigsem1BjffNrCGSEJxsVkJ1zddfp8kHOLBw7IehuHYARlRkdRspr0xh4cbxgnGFYFgKVGvCisQZkxgME0JwMIIDD0UIvLtTcOg1umXWYwZUVajjG3Bo6ofgptSAALxDEWqDPC9HkwvtsIcsbnJaa0xHGQLno8xlAWYmjzRZrWzDCaIxEBXbora7mbb5+2mCdl2wBRpCUKvdD0aw-LcMKsdmRZfwdGtfRE48+wAtXYKdcmJOax160uet3njqMrPnaR3PYy7HtvdLiT0xfCOOkTyivxex63RqgE-jddX6McMwu8lUgIzgDQoPam6p4mhEOjMC0qocJwGe8Hygq6PXzD8YIdZaqVU8bbYFXxE-xpchESwJghTtDEIyMwPkPoUWZknbkZEERCl-I4bu+kWwJXgv-f2MluTTV5G+TePRVx2kmLA9oPRGTMm5LYVBcV0G8SSiZMyFklBYOVq0IUxhnT4LdDXIhgIaoTiMGWc0utxRwiFLQri9DobqjJMhe4Gp0Y5EllQU4bCxyiN+MEZws5rDFm-HaMBJhyHmm-LCIEUimzxQYbAFKaUwAZSkn7dhxZnSsm-ExJOhggj+WWmFX4IjuihBRHYQEVj0592jBol8HJmZUyev+OmHkSHfTLGFJeUQI5BBLBE3udsjICyFkPZxSsK6DBMPJbyzprA1j8ZCMIQVohhVmg4GwsInp5IhlEuxA8c6lPLuTYBNZfr0QMbmGqm5WSrnKu0nxtErGnGILnQWTBAwwFgEQZKChYC5xiRNbkidWQIlfgndcjdlqfTdDCc52T1w62-AkBIQA */
-    // Machine definition
-    id: 'frameMachine',
-    context: initialContext,
-    initial: 'Inaktiv',
-
-    // Global Events
-    // Events that can be processed from any state
-    on: {
-      NOTFALL_EMPFANGEN: {
-        target: '.NotfallModus',
-        actions: 'initNotfallModus',
+  
+    // ---- Guards ----
+    // Conditions that control transitions based on context and events
+    guards: {
+      "herkunftIstArbeitsModus": ({ context }) => 
+        context.herkunftsZustand === 'ArbeitsModus',
+      "herkunftIsInaktiv": ({ context }) => 
+        context.herkunftsZustand === 'Inaktiv',
+      "isListKontext": ({ event }, params: { name: string }) =>
+        event.type === 'LADE_NEUE_LISTE' && event.context === params.name,
+      "isSameAnzeigeKontext": ({ context, event }) => {
+        if (event.type !== 'LADE_NEUE_LISTE') return false;
+        return context.anzeigeKontext === event.context;
+      },
+      "isAntwortTrue": ({ event }) => 
+        event.type === 'USER_BESTAETIGT_NOTFALL' && event.accepted === true,
+      // Whether an emergency preempts the displayed one: a higher priority or the same ID (an update)
+      "isNotfallVorrangig": ({ context, event }) => {
+        if (event.type !== 'NOTFALL_EMPFANGEN') return false;
+        const active = context.aktiverNotfall;
+        return !active || event.id === active.id || (event.priority ?? 0) > active.priority;
       },
-      ZURUCKSETZEN: {
-        target: '.Inaktiv',
-        actions: assign(() => ({ ...initialContext })),
+      "hasWartendenNotfall": ({ context }) => context.notfallWarteschlange.length > 0,
+      "hasBestaetigungsFrist": ({ context }) => !!context.bestaetigung?.frist,
+      // Whether the running confirmation timeout applies the given policy
+      "isTimeoutModus": ({ context }, params: { modus: TimeoutModus }) =>
+        !!context.bestaetigung?.frist && context.aktiverNotfall?.onTimeout === params.modus,
+      "hasNextFrame": ({ context }) => getNavigationTarget(context, 1) !== null,
+      "hasPreviousFrame": ({ context }) => getNavigationTarget(context, -1) !== null,
+      "isJumpTargetInRange": ({ context, event }) => getJumpTarget(context, event) !== null,
+      "isListEditValid": ({ context, event }) => getListEdit(context, event) !== null,
+      // A slideshow needs an interval (given or from the paused slideshow) and a list with more than one frame
+      "isDiashowStartbar": ({ context, event }) => {
+        if (event.type !== 'DIASHOW_STARTEN') return false;
+        const active = getActiveContext(context);
+        return !!active && active.list.length > 1 && (event.intervalMs ?? getDiashow(context)?.intervalMs) !== undefined;
+      },
+      "isDiashowAktiv": ({ context }) => getDiashow(context)?.status === 'LAEUFT',
+      "hasDiashow": ({ context }) => getDiashow(context) !== undefined,
+      // Whether SUCHE_FRAME (scope ALL) found the frame in another list than the active one
+      "isSuchtrefferInKontext": ({ context, event }, params: { name: string }) => {
+        if (event.type !== 'SUCHE_FRAME' || context.anzeigeKontext === params.name) return false;
+        const result = findFrame(context, event, registry);
+        return result.found && result.kontext === params.name;
       },
     },
 
-    states: {
-      // ---- STATE 1: INAKTIV ----
-      // Initial state, waits for new lists or shutdown
-      Inaktiv: {
-        entry: [ 
-          'sendLeererFrame' , 
-          assign({ herkunftsZustand: 'Inaktiv', anzeigeKontext: 'INAKTIV' }),
-        ],
-        on: {
-          LADE_NEUE_LISTE: [
-          {
-            guard: 'isEntitaetKontext',
-            target: 'ArbeitsModus.Entitaet',
-            actions: 'setNewList',
-          },
-          {
-            guard: 'isAllgemeinKontext',
-            target: 'ArbeitsModus.Allgemein',
-            actions: 'setNewList',
-          }
-        ],
-          AUSSCHALTEN: {
-            target: 'DienstAbgeschlossen',
-          },
+    /**
+     * 3. Machine Definition
+     * Defines states, transitions and global events
+     */
+  }).createMachine({
+      /** @xstate-layout N4IgpgJg5mDOIC5QDMBOBDAtmAsugxgBYCWAdmAMQByA8gCoBiAggDIsD6AojgArNUBxTlQDaABgC6iUAAcA9rGIAXYnNLSQAD0QBmAOwBOAHQ6AbGIM6DpgKxiALAZs6ANCACeiALQAmU6aN7MRsARnMQuz0fMR8dAF84tzQsXAIScgoALQBVACVsgGEAaQBlTjpM4XEpJBB5RRU1DW0EMPsQkwMxPQj-Hps9Vw9vP3sjHx89Q0mZkKd7BKSMbDwiMjAjAElSdABrFQA3ChYmABFOdipObIuWTZK6TmqNeuVVdVqWkLmfIxixYIADnac0cNjcngQdj+pnszh0Om67URC0SIGSKzS6y2O32xCOJ3Ol2ut3ujxEIRqsgUbyan0QIT09j0RlMIR0wPmPkZph8EMQ0LEsPhiKZ7O6i3Ry1Sa3IOL2hwoTGyJRKBQAEqxHqJJC8aY0PqAvoCnCYQhYrMF7IDgfyEF4bYEfPZeSFkQMuqZJRiZekNkxUAAjMDKWA4OQQACusAoavVd04qqqutqrwNzQZbOMUQm4uihiZdpCgICeit7MBVh6gNi3ulqz9RgDwdD4ajMZKhXVFwYuSYOCeKepDXeGda9j8f1iAMZ1Zddr0bPGxdMlZssR0PzrKQb2ObIaUYYj0eoTE4GoenFy7F7-cHVLq+tH9NaBm+RmLNgMEz0JqsEQXJduRLNcNzmeI0R9Xc5X3VtjxjAA1Ghcm7XJNiEa9bwHZ5UyfOkjUzZlAlXOEfBrEIfFCPQ7UBaF7DMMsHDEfQ3wMbdMVlf0gwPI922OM4LiuG52DuS8cOHWlDS0BkLBZHwDEsGJK2tSwaLohiASCFi5nY30924uD2yMThSBUJR0DAJR+KJITSTEodHxHfDpNaKwxlMNybDsHQv3XUw7XMHQjG-YCbGtL9-C9SD6yxGCDMPNtoybAAbZKYGwMhrMEkkRLJe89ScqSvg5YxnEXJxK2sCK7W88YmO6CiJyiCClh3WKNioOQlGQdBUsSjsNQTJMdQfNNnwIqFrHGewggiWigVMajhntX9AkcWwFLI75BhCXToI6rqer6+DY0GzZEzKURKQKySx3CIwbEBKZHAo2IJjtLwKMBYKdEmUwnGY3N-D29qjE67reuS-qjAAITgczLOIGBSAoFUr3YGHEzoM86HQuhLnoZg2HExzbpfeigsem1BjffNrCGSEJxsVkJ1zddfp8kHOLBw7IehuHYARlRkdRspr0xh4cbxgnGFYFgKVGvCisQZkxgME0JwMIIDD0UIvLtTcOg1umXWYwZUVajjG3Bo6ofgptSAALxDEWqDPC9HkwvtsIcsbnJaa0xHGQLno8xlAWYmjzRZrWzDCaIxEBXbora7mbb5+2mCdl2wBRpCUKvdD0aw-LcMKsdmRZfwdGtfRE48+wAtXYKdcmJOax160uet3njqMrPnaR3PYy7HtvdLiT0xfCOOkTyivxex63RqgE-jddX6McMwu8lUgIzgDQoPam6p4mhEOjMC0qocJwGe8Hygq6PXzD8YIdZaqVU8bbYFXxE-xpchESwJghTtDEIyMwPkPoUWZknbkZEERCl-I4bu+kWwJXgv-f2MluTTV5G+TePRVx2kmLA9oPRGTMm5LYVBcV0G8SSiZMyFklBYOVq0IUxhnT4LdDXIhgIaoTiMGWc0utxRwiFLQri9DobqjJMhe4Gp0Y5EllQU4bCxyiN+MEZws5rDFm-HaMBJhyHmm-LCIEUimzxQYbAFKaUwAZSkn7dhxZnSsm-ExJOhggj+WWmFX4IjuihBRHYQEVj0592jBol8HJmZUyev+OmHkSHfTLGFJeUQI5BBLBE3udsjICyFkPZxSsK6DBMPJbyzprA1j8ZCMIQVohhVmg4GwsInp5IhlEuxA8c6lPLuTYBNZfr0QMbmGqm5WSrnKu0nxtErGnGILnQWTBAwwFgEQZKChYC5xiRNbkidWQIlfgndcjdlqfTdDCc52T1w62-AkBIQA */
+      // Machine definition
+      id: 'frameMachine',
+      context: initialContext,
+      initial: 'Inaktiv',
+
+      // Global Events
+      // Events that can be processed from any state
+      on: {
+        NOTFALL_EMPFANGEN: {
+          target: '.NotfallModus',
+          actions: 'initNotfallModus',
         },
+        ZURUCKSETZEN: {
+          target: '.Inaktiv',
+          actions: assign(() => ({ ...initialContext })),
+        },
+        // Incremental list editing, also while a list is not displayed (e.g. in NotfallModus)
+        FRAMES_ANHAENGEN: { guard: 'isListEditValid', actions: 'editList' },
+        FRAMES_EINFUEGEN: { guard: 'isListEditValid', actions: 'editList' },
+        FRAME_ENTFERNEN: { guard: 'isListEditValid', actions: 'editList' },
+        FRAME_VERSCHIEBEN: { guard: 'isListEditValid', actions: 'editList' },
       },
 
-      // ---- STATE 2: ARBEITSMODUS ----
-      // Handles entity and general frames with navigation
-      // Uses substates for Entitaet and Allgemein
-      // as well as a history state to remember the last used substate
-      ArbeitsModus: {
-        entry: assign({ herkunftsZustand: 'ArbeitsModus' }),
-        on: {
-          SCHLIESSEN: { target: 'Inaktiv' },
-          SUCHE_FRAME: {
-            actions: 'searchFrame'
-          },
-          NAECHSTER_FRAME: {
-            guard: 'hasNextFrame',
-            actions: 'frameNavigation',
-          },
-          VORHERIGER_FRAME: {
-            guard: 'hasPreviousFrame',
-            actions: 'frameNavigation',
+      states: {
+        // ---- STATE 1: INAKTIV ----
+        // Initial state, waits for new lists or shutdown
+        Inaktiv: {
+          entry: [ 
+            'sendLeererFrame' , 
+            assign({ herkunftsZustand: 'Inaktiv', anzeigeKontext: 'INAKTIV' }),
+          ],
+          on: {
+            LADE_NEUE_LISTE: ladeTransitions(arbeitsKontexte, 'ArbeitsModus.'),
+            AUSSCHALTEN: {
+              target: 'DienstAbgeschlossen',
+            },
           },
-          LADE_NEUE_LISTE:{ 
-            guard: 'isSameAnzeigeKontext',   
-            actions: 'setNewList',
-            reenter: true
+        },
+
+        // ---- STATE 2: ARBEITSMODUS ----
+        // Handles entity and general frames with navigation
+        // Uses substates for Entitaet and Allgemein
+        // as well as a history state to remember the last used substate
+        ArbeitsModus: {
+          entry: assign({ herkunftsZustand: 'ArbeitsModus' }),
+          on: {
+            SCHLIESSEN: { target: 'Inaktiv' },
+            // A hit in another list switches to its substate
+            SUCHE_FRAME: [
+              ...arbeitsKontexte.map((kontext) => ({
+                guard: { type: 'isSuchtrefferInKontext' as const, params: { name: kontext.name } },
+                target: `.${kontext.state}`,
+                actions: 'searchFrame' as const,
+              })),
+              { actions: 'searchFrame' as const },
+            ],
+            NAECHSTER_FRAME: {
+              guard: 'hasNextFrame',
+              actions: 'frameNavigation',
+            },
+            VORHERIGER_FRAME: {
+              guard: 'hasPreviousFrame',
+              actions: 'frameNavigation',
+            },
+            // Jump events, the guard rejects targets outside of the list
+            ERSTER_FRAME: {
+              guard: 'isJumpTargetInRange',
+              actions: 'jumpToFrame',
+            },
+            LETZTER_FRAME: {
+              guard: 'isJumpTargetInRange',
+              actions: 'jumpToFrame',
+            },
+            SPRINGE_ZU_INDEX: {
+              guard: 'isJumpTargetInRange',
+              actions: 'jumpToFrame',
+            },
+            SPRINGE_UM_OFFSET: {
+              guard: 'isJumpTargetInRange',
+              actions: 'jumpToFrame',
+            },
+            LADE_NEUE_LISTE:{ 
+              guard: 'isSameAnzeigeKontext',   
+              actions: 'setNewList',
+              reenter: true
+            },
           },
+          initial: 'Entitaet',
+          states: {
+            // --- SUBSTATES: one per list context (Entitaet, Allgemein and the registered ones) ---
+            // Display the frames of their list with navigation.
+            // A running slideshow advances the list after its interval (DIASHOW_WEITER), only while the substate is active:
+            // the entry schedules the timer (none without a running slideshow), leaving the substate
+            // (e.g. for NotfallModus) cancels it, returning to it schedules the timer again.
+            ...Object.fromEntries(arbeitsKontexte.map((kontext) => [kontext.state, {
+              entry: [{ type: 'setAnzeigeKontext' as const, params: { name: kontext.name } }, 'setAktuellerFrame' as const, 'planeDiashow' as const],
+              exit: 'beendeDiashowTimer' as const,
+              on: {
+                DIASHOW_WEITER: [
+                  {
+                    guard: and(['isDiashowAktiv', 'hasNextFrame']),
+                    target: `${kontext.state}`,
+                    reenter: true,
+                    actions: 'frameNavigation' as const,
+                  },
+                  // End of a list with STOP
+                  { guard: 'isDiashowAktiv' as const, actions: 'stopDiashow' as const },
+                ],
+                LADE_NEUE_LISTE: ladeTransitions(arbeitsKontexte.filter((other) => other !== kontext), ''),
+                TIMER_FORTSETZEN: { guard: 'isDiashowAktiv', target: `${kontext.state}`, reenter: true },
+                DIASHOW_STARTEN: diashowTransition(kontext, 'isDiashowStartbar', 'startDiashow'),
+                DIASHOW_PAUSIEREN: diashowTransition(kontext, 'isDiashowAktiv', 'pauseDiashow'),
+                DIASHOW_STOPPEN: diashowTransition(kontext, 'hasDiashow', 'stopDiashow'),
+              },
+            }])),
+            // --- SUBSTATE: HISTORY_STATE ---
+            /**
+             * HISTORISCHER_ZUSTAND is a shallow history state.
+             * It remembers which list context substate was last active within 'ArbeitsModus'.
+             * When exiting and re-entering 'ArbeitsModus' (e.g., after emergency mode), the machine returns to the last used substate.
+             */
+            HISTORISCHER_ZUSTAND: {
+              type: 'history',
+              history: 'shallow',
+            },
+          }
         },
-        initial: 'Entitaet',
-        states: {
-            // --- SUBSTATE: Entitaet ---
-            // Displays entity frames with navigation
-          Entitaet: {
-            entry: [assign({ anzeigeKontext: 'ENTITAET' }), 'setAktuellerFrame'],
-            on: {
-              LADE_NEUE_LISTE:{ 
-                guard: 'isAllgemeinKontext', 
-                target: 'Allgemein', 
-                actions: 'setNewList' 
+
+        // ---- STATE 3: EMERGENCY MODE ----
+        // Handles emergency frames with confirmation and navigation.
+        // Further emergencies either preempt the displayed one (re-entering the confirmation) or wait in the queue.
+        NotfallModus: {
+          initial: 'Bestaetigen',
+          entry: assign({ anzeigeKontext: 'NOTFALL' }),
+          on: {
+            NOTFALL_EMPFANGEN: [
+              {
+                guard: 'isNotfallVorrangig',
+                target: 'NotfallModus',
+                reenter: true,
+                actions: 'initNotfallModus',
+              },
+              { actions: 'queueNotfall' },
+            ],
+            // Shows the next pending emergency, exits emergency mode based on source state otherwise
+            SCHLIESSEN: [
+              {
+                guard: 'hasWartendenNotfall',
+                target: 'NotfallModus',
+                reenter: true,
+                actions: 'nextNotfall'
+              },
+              {
+                guard: 'herkunftIstArbeitsModus',
+                target: 'ArbeitsModus.HISTORISCHER_ZUSTAND',
+                actions: 'endNotfall'
+              },
+              {
+                guard: 'herkunftIsInaktiv',
+                target: 'Inaktiv',
+                actions: 'endNotfall'
               }
-            }
-          },
-          // --- SUBSTATE: HISTORY_STATE ---
-          /**
-           * HISTORISCHER_ZUSTAND is a shallow history state.
-           * It remembers whether 'Entitaet' or 'Allgemein' was last active within 'ArbeitsModus'.
-           * When exiting and re-entering 'ArbeitsModus' (e.g., after emergency mode), the machine returns to the last used substate.
-           */
-          HISTORISCHER_ZUSTAND: {
-            type: 'history',
-            history: 'shallow',
+            ]
           },
-          // --- SUBSTATE: Allgemein ---
-          // Displays general frames with navigation
-          Allgemein: {
-            entry: [assign({ anzeigeKontext: 'ALLGEMEIN' }), 'setAktuellerFrame'],
-            on: {
-              LADE_NEUE_LISTE: { 
-                guard: 'isEntitaetKontext', 
-                target: 'Entitaet', 
-                actions: 'setNewList' 
+          states: {
+            // --- SUBSTATE: BESTAETIGEN ---
+            // Asks the user to confirm the emergency mode.
+            // If the emergency has a timeout, its policy is applied once the deadline has passed (BESTAETIGUNG_ABGELAUFEN).
+            Bestaetigen: {
+              entry: ['sendBestaetigungFrame', 'startBestaetigung', 'planeBestaetigung'],
+              exit: 'beendeBestaetigungsTimer',
+              on: {
+                BESTAETIGUNG_ABGELAUFEN: [
+                  {
+                    guard: { type: 'isTimeoutModus', params: { modus: 'AUTO_ACCEPT' } },
+                    target: 'Anzeigen',
+                  },
+                  {
+                    guard: { type: 'isTimeoutModus', params: { modus: 'REPROMPT' } },
+                    target: 'Bestaetigen',
+                    reenter: true,
+                    actions: 'repromptNotfall',
+                  },
+                  {
+                    guard: { type: 'isTimeoutModus', params: { modus: 'ESCALATE' } },
+                    actions: 'escalateNotfall',
+                  },
+                ],
+                TIMER_FORTSETZEN: {
+                  guard: 'hasBestaetigungsFrist',
+                  target: 'Bestaetigen',
+                  reenter: true,
+                },
+                USER_BESTAETIGT_NOTFALL: [
+                  {
+                    guard: 'isAntwortTrue',
+                    target: 'Anzeigen',              
+                  },
+                  // A rejected emergency is dropped, the next pending one has to be confirmed as well
+                  {
+                    guard: 'hasWartendenNotfall',
+                    target: '#frameMachine.NotfallModus',
+                    reenter: true,
+                    actions: 'nextNotfall',
+                  },
+                  {
+                    actions: [raise({ type: 'SCHLIESSEN' }), 'endNotfall'],
+                    target: '#frameMachine.Inaktiv',
+                  }
+                ]
               }
-            }
-          }
-        }
-      },
-
-      // ---- STATE 3: EMERGENCY MODE ----
-      // Handles emergency frames with confirmation and navigation
-      NotfallModus: {
-        initial: 'Bestaetigen',
-        entry: assign({ anzeigeKontext: 'NOTFALL' }),
-        // Transitions to exit emergency mode based on source state
-        on: {
-          SCHLIESSEN: [
-            {
-              guard: 'herkunftIstArbeitsModus',
-              target: 'ArbeitsModus.HISTORISCHER_ZUSTAND'
             },
-            {
-              guard: 'herkunftIsInaktiv',
-              target: 'Inaktiv'
-            }
-          ]
-        },
-        states: {
-          // --- SUBSTATE: BESTAETIGEN ---
-          // Asks the user to confirm the emergency mode
-          Bestaetigen: {
-            entry: 'sendBestaetigungFrame',
-            on: {
-              USER_BESTAETIGT_NOTFALL: [
-                {
-                  guard: 'isAntwortTrue',
-                  target: 'Anzeigen',              
+            // --- SUBSTATE: ANZEIGEN ---
+            // Displays emergency frames with navigation
+            Anzeigen: {
+              entry: ['setAktuellerFrame', 'endBestaetigung'],
+              on: {
+                NAECHSTER_FRAME: { 
+                  guard: 'hasNextFrame', 
+                  actions: 'frameNavigation' 
                 },
-                {
-                  actions: raise({ type: 'SCHLIESSEN' }),
-                  target: '#frameMachine.Inaktiv',
+                VORHERIGER_FRAME: { 
+                  guard: 'hasPreviousFrame', 
+                  actions: 'frameNavigation' 
+                },
+                ERSTER_FRAME: {
+                  guard: 'isJumpTargetInRange',
+                  actions: 'jumpToFrame'
+                },
+                LETZTER_FRAME: {
+                  guard: 'isJumpTargetInRange',
+                  actions: 'jumpToFrame'
+                },
+                SPRINGE_ZU_INDEX: {
+                  guard: 'isJumpTargetInRange',
+                  actions: 'jumpToFrame'
+                },
+                SPRINGE_UM_OFFSET: {
+                  guard: 'isJumpTargetInRange',
+                  actions: 'jumpToFrame'
+                },
+                SUCHE_FRAME: {
+                  actions: 'searchFrame'
                 }
-              ]
-            }
-          },
-          // --- SUBSTATE: ANZEIGEN ---
-          // Displays emergency frames with navigation
-          Anzeigen: {
-            entry: 'setAktuellerFrame',
-            on: {
-              NAECHSTER_FRAME: { 
-                guard: 'hasNextFrame', 
-                actions: 'frameNavigation' 
-              },
-              VORHERIGER_FRAME: { 
-                guard: 'hasPreviousFrame', 
-                actions: 'frameNavigation' 
-              },
-              SUCHE_FRAME: {
-                actions: 'searchFrame'
               }
             }
-          }
+          },
         },
+
+        // ---- STATE 4: FINAL ----
+        // Final state when the service is completed
+        DienstAbgeschlossen: {
+          type: 'final',
+          entry: ['sendLeererFrame'],
+        }
       },
+    });
+};
 
-      // ---- STATE 4: FINAL ----
-      // Final state when the service is completed
-      DienstAbgeschlossen: {
-        type: 'final',
-        entry: ['sendLeererFrame'],
-      }
-    },
-  });
\ No newline at end of file
+// The frame machine with the configured list contexts
+export const frameMachine = createFrameMachine();
@@ -10,25 +10,180 @@ import { EventObject, ActorRef, Snapshot } from 'xstate';
 // 1. CONTEXT: The data managed by the State Actor
 // ----------------------------------------------------
 
-// Display context to know which type of frame is currently displayed
-export type AnzeigeKontext = 'ENTITAET' | 'ALLGEMEIN' | 'NOTFALL' | 'INAKTIV';
+// Display context to know which type of frame is currently displayed.
+// Besides the built-in contexts, the name of every registered list context (see context.registry.ts) is possible.
+export type AnzeigeKontext = 'ENTITAET' | 'ALLGEMEIN' | 'NOTFALL' | 'INAKTIV' | (string & {});
+
+// Name of a list context that can be loaded with LADE_NEUE_LISTE (built-in or registered)
+export type ListKontext = 'ENTITAET' | 'ALLGEMEIN' | (string & {});
+
+/**
+ * Navigation mode of a list, chosen when the list is loaded:
+ * - STOP: NAECHSTER_FRAME / VORHERIGER_FRAME stop at the ends of the list (default)
+ * - WRAP: the last frame is followed by the first one and vice versa
+ * - BOUNCE: the direction is reversed at the ends of the list (1, 2, 3, 2, 1, 2, ...)
+ */
+export const NavigationsModi = ['STOP', 'WRAP', 'BOUNCE'] as const;
+
+export type NavigationsModus = (typeof NavigationsModi)[number];
+
+/**
+ * How SUCHE_FRAME compares the search term with the ID and the title of the frames:
+ * - EXACT: exact match (default)
+ * - IGNORE_CASE: exact match, ignoring upper and lower case
+ * - PREFIX: the ID / title starts with the search term (ignoring case)
+ * - SUBSTRING: the ID / title contains the search term (ignoring case)
+ */
+export const SuchModi = ['EXACT', 'IGNORE_CASE', 'PREFIX', 'SUBSTRING'] as const;
+
+export type SuchModus = (typeof SuchModi)[number];
+
+// Lists SUCHE_FRAME searches: only the active one (default) or all loaded lists of ArbeitsModus
+export const SuchBereiche = ['ACTIVE', 'ALL'] as const;
+
+export type SuchBereich = (typeof SuchBereiche)[number];
+
+/**
+ * Defines the result of a frame search.
+ * A hit names the list context and the index of the frame and whether the ID or the title matched.
+ */
+export type SuchErgebnis =
+  | { found: true; kontext: string; index: number; frame: Frame; matchedBy: 'id' | 'title' }
+  | { found: false };
+
+/**
+ * Status of the slideshow of a list:
+ * - LAEUFT: the list advances automatically every `intervalMs` while it is displayed
+ * - PAUSIERT: the slideshow keeps its interval, DIASHOW_STARTEN without an interval resumes it
+ */
+export type DiashowStatus = 'LAEUFT' | 'PAUSIERT';
+
+// Smallest interval of a slideshow accepted by the event validation (milliseconds)
+export const DIASHOW_MIN_INTERVALL_MS = 1000;
+
+/**
+ * Defines the slideshow (automatic NAECHSTER_FRAME) of a list.
+ */
+export interface Diashow {
+  // Time between two frames (milliseconds)
+  intervalMs: number;
+  status: DiashowStatus;
+}
+
+/**
+ * What happens when an emergency is not confirmed within its timeout:
+ * - AUTO_ACCEPT: the emergency is displayed as if the user had accepted it
+ * - REPROMPT: the confirmation is requested again (with a new timeout)
+ * - ESCALATE: the service publishes an escalation notification, the confirmation keeps waiting (default)
+ */
+export const TimeoutModi = ['AUTO_ACCEPT', 'REPROMPT', 'ESCALATE'] as const;
+
+export type TimeoutModus = (typeof TimeoutModi)[number];
+
+// Smallest confirmation timeout accepted by the event validation (milliseconds)
+export const NOTFALL_MIN_TIMEOUT_MS = 1000;
+
+/**
+ * Defines an emergency received with NOTFALL_EMPFANGEN.
+ * Emergencies with a higher priority preempt the displayed one, all others wait in the queue.
+ */
+export interface Notfall {
+  // ID of the emergency (default: 'NOTFALL-<n>', counting the emergencies of the session)
+  id: string;
+  // Higher values are more urgent (default: 0)
+  priority: number;
+  // Time the user has to confirm the emergency and the policy applied afterwards (no timeout by default)
+  timeoutMs?: number;
+  onTimeout?: TimeoutModus;
+}
+
+/**
+ * Defines the pending confirmation of an emergency with a timeout (NotfallModus.Bestaetigen).
+ */
+export interface Bestaetigung {
+  // Deadline of the confirmation (milliseconds on the clock of the machine, since epoch by default),
+  // `null` after the escalation
+  frist: number | null;
+  // Number of times the confirmation was requested again (REPROMPT)
+  erinnerungen: number;
+  eskaliert: boolean;
+}
+
+/**
+ * Defines an emergency waiting in the queue, with its frames and the position to resume from.
+ */
+export interface WartenderNotfall extends Notfall {
+  list: Frame[];
+  navigation: NavigationsModus;
+  // Index of the emergency list (> 0 if the emergency was preempted while it was displayed)
+  index: number;
+}
+
+/**
+ * Defines an additional list context registered at configuration time.
+ * Every list context gets its own list, index and substate of ArbeitsModus.
+ */
+export interface ListKontextDefinition {
+  // Name used in LADE_NEUE_LISTE and as anzeigeKontext, e.g. 'CHECKLISTE'
+  name: string;
+  // Name of the substate of ArbeitsModus (default: the capitalized name, e.g. 'Checkliste')
+  state?: string;
+}
+
+/**
+ * Defines a single frame shown to the user.
+ */
+export interface Frame {
+  // Unique ID of the frame within its list
+  id: string;
+  title: string;
+  // Name of the template the client uses to render the frame
+  template?: string;
+  // Parameters of the template
+  payload?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+// Frames can still be sent as plain strings, 'E1' is the same as { id: 'E1', title: 'E1' }.
+// The title defaults to the ID.
+export type FrameInput = string | (Omit<Frame, 'title'> & { title?: string });
 
 // Defines the complete state context (the 'data') of the Frame Machine.
 export interface FrameContext {
   // List management
-  entitaetListe: string[];
-  allgemeineListe: string[];
-  notfallListe: string[];
+  entitaetListe: Frame[];
+  allgemeineListe: Frame[];
+  notfallListe: Frame[];
   
   // Pointer management
   aktuellerEntitaetIndex: number;
   aktuellerAllgemeinIndex: number;
   aktuellerNotfallIndex: number;
+
+  // Lists and indices of the registered list contexts, by name
+  weitereListen: Record<string, Frame[]>;
+  weitereIndizes: Record<string, number>;
+
+  // Navigation mode and direction (1 forward, -1 backward, only reversed by BOUNCE) of every loaded list, by list context name
+  navigationsModi: Record<string, NavigationsModus>;
+  navigationsRichtungen: Record<string, 1 | -1>;
+
+  // Slideshow of every list that has one, by list context name
+  diashow: Record<string, Diashow>;
   
+  // The emergency displayed in NotfallModus (its frames are notfallListe), `null` outside of NotfallModus
+  aktiverNotfall: Notfall | null;
+  // Emergencies waiting to be displayed, highest priority first (received first within the same priority)
+  notfallWarteschlange: WartenderNotfall[];
+  // Number of emergencies received, used for the default IDs
+  notfallZaehler: number;
+  // Pending confirmation of the displayed emergency, `null` if it has no timeout or is confirmed
+  bestaetigung: Bestaetigung | null;
+
   // Defines which list currently serves as the source
   anzeigeKontext: AnzeigeKontext;
   // Stores the current frame sent to the UI
-  aktuellerFrame: string;
+  aktuellerFrame: Frame;
   // Stores the state from which the emergency was received
   herkunftsZustand: string;
 }
@@ -48,6 +203,10 @@ export const FrameEventTypes = {
   NAECHSTER_FRAME: 'NAECHSTER_FRAME',
   VORHERIGER_FRAME: 'VORHERIGER_FRAME',
   SUCHE_FRAME: 'SUCHE_FRAME',
+  ERSTER_FRAME: 'ERSTER_FRAME',
+  LETZTER_FRAME: 'LETZTER_FRAME',
+  SPRINGE_ZU_INDEX: 'SPRINGE_ZU_INDEX',
+  SPRINGE_UM_OFFSET: 'SPRINGE_UM_OFFSET',
   
   // Emergency
   NOTFALL_EMPFANGEN: 'NOTFALL_EMPFANGEN',
@@ -55,6 +214,15 @@ export const FrameEventTypes = {
   
   // Data
   LADE_NEUE_LISTE: 'LADE_NEUE_LISTE',
+  FRAMES_ANHAENGEN: 'FRAMES_ANHAENGEN',
+  FRAMES_EINFUEGEN: 'FRAMES_EINFUEGEN',
+  FRAME_ENTFERNEN: 'FRAME_ENTFERNEN',
+  FRAME_VERSCHIEBEN: 'FRAME_VERSCHIEBEN',
+
+  // Slideshow
+  DIASHOW_STARTEN: 'DIASHOW_STARTEN',
+  DIASHOW_PAUSIEREN: 'DIASHOW_PAUSIEREN',
+  DIASHOW_STOPPEN: 'DIASHOW_STOPPEN',
 } as const;
 
 // Defines all events that the machine can process.
@@ -67,14 +235,57 @@ export type FrameEvent =
   // Navigation events
   | { type: typeof FrameEventTypes.NAECHSTER_FRAME }
   | { type: typeof FrameEventTypes.VORHERIGER_FRAME }
-  | { type: typeof FrameEventTypes.SUCHE_FRAME; frameName: string }
+  // `next` continues after the current frame (wrapping around), e.g. to step through duplicates
+  | { type: typeof FrameEventTypes.SUCHE_FRAME; frameName: string; match?: SuchModus; scope?: SuchBereich; next?: boolean }
+  | { type: typeof FrameEventTypes.ERSTER_FRAME }
+  | { type: typeof FrameEventTypes.LETZTER_FRAME }
+  // Jumps to the frame at the (zero-based) index of the active list
+  | { type: typeof FrameEventTypes.SPRINGE_ZU_INDEX; index: number }
+  // Jumps `offset` frames forward (positive) or backward (negative) from the current frame
+  | { type: typeof FrameEventTypes.SPRINGE_UM_OFFSET; offset: number }
 
   // Emergency events
-  | { type: typeof FrameEventTypes.NOTFALL_EMPFANGEN; list: string[] }
-  | { type: typeof FrameEventTypes.USER_BESTAETIGT_NOTFALL; accepted: boolean }
+  // An emergency with the ID of a known one replaces it
+  | {
+    type: typeof FrameEventTypes.NOTFALL_EMPFANGEN;
+    list: FrameInput[];
+    navigation?: NavigationsModus;
+    id?: string;
+    priority?: number;
+    // Confirmation timeout, `onTimeout` (default: ESCALATE) only applies together with `timeoutMs`
+    timeoutMs?: number;
+    onTimeout?: TimeoutModus;
+  }
+  // `user` and `comment` are recorded with the answer (see the emergency records of the service)
+  | { type: typeof FrameEventTypes.USER_BESTAETIGT_NOTFALL; accepted: boolean; user?: string; comment?: string }
 
   // Data events
-  | { type: typeof FrameEventTypes.LADE_NEUE_LISTE; list: string[]; context: 'ENTITAET' | 'ALLGEMEIN' };
+  | { type: typeof FrameEventTypes.LADE_NEUE_LISTE; list: FrameInput[]; context: ListKontext; navigation?: NavigationsModus }
+  // Incremental editing of a list, its index keeps pointing at the current frame
+  | { type: typeof FrameEventTypes.FRAMES_ANHAENGEN; context: ListKontext; list: FrameInput[] }
+  // Inserts the frames before the frame at `index` (the length of the list appends them)
+  | { type: typeof FrameEventTypes.FRAMES_EINFUEGEN; context: ListKontext; index: number; list: FrameInput[] }
+  // Removes the first frame with the ID
+  | { type: typeof FrameEventTypes.FRAME_ENTFERNEN; context: ListKontext; frameId: string }
+  // Moves the first frame with the ID to `toIndex` (its position in the resulting list)
+  | { type: typeof FrameEventTypes.FRAME_VERSCHIEBEN; context: ListKontext; frameId: string; toIndex: number }
+
+  // Slideshow events (for the displayed list)
+  // Without `intervalMs` a paused slideshow is resumed with its previous interval
+  | { type: typeof FrameEventTypes.DIASHOW_STARTEN; intervalMs?: number }
+  | { type: typeof FrameEventTypes.DIASHOW_PAUSIEREN }
+  | { type: typeof FrameEventTypes.DIASHOW_STOPPEN };
+
+// Internal events the service sends to the machine.
+// They are not part of FrameEvent, so the event validation rejects them from clients.
+export type InternesFrameEvent =
+  // Schedules the timers of the active states again (slideshow, confirmation timeout)
+  // after an Actor was started from a persisted snapshot, which does not contain timers
+  | { type: 'TIMER_FORTSETZEN' }
+  // Raised by the timer of a running slideshow when its interval has passed
+  | { type: 'DIASHOW_WEITER' }
+  // Raised by the timer of a confirmation when its deadline has passed
+  | { type: 'BESTAETIGUNG_ABGELAUFEN' };
 
 // ----------------------------------------------------
 // 3. TYPE DEFINITIONS: Machine Types
@@ -84,10 +295,22 @@ export type FrameEvent =
 // This helps with type safety and clarity in the code.
 export type FrameMachineDefinition = {
     context: FrameContext,
-    events: FrameEvent
+    events: FrameEvent | InternesFrameEvent
     output: void
 };
 
+/**
+ * Defines the metadata attached to a session when it is created.
+ * It describes the display that uses the session and is used to filter sessions.
+ */
+export interface SessionMetadata {
+  owner?: string;
+  device?: string;
+  location?: string;
+  // Free-form tags, e.g. 'site-berlin' or 'lobby'
+  tags: string[];
+}
+
 /**
  * Defines the clean, serializable snapshot structure
  * sent to the client.
@@ -95,7 +318,17 @@ export type FrameMachineDefinition = {
  */
 export interface CleanSnapshot {
   currentState: unknown;
+  // ID of the current frame (kept as string for backward compatibility)
   currentFrame: string;
+  // The current frame with title, template, payload and metadata
+  frame: Frame;
   context: FrameContext;
   sessionId: string;
+  // Time of the last event or lease extension (ISO 8601)
+  lastActivityAt: string;
+  // Time at which the session expires (ISO 8601), `null` if it never expires
+  expiresAt: string | null;
+  // Time left to confirm the displayed emergency (milliseconds), `null` if no confirmation timeout is running
+  confirmationRemainingMs: number | null;
+  metadata: SessionMetadata;
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
 import express from 'express';
 import { apiRoutes } from './api/routes';
+import { attachWebSocketServer } from './api/websocket';
 import { config } from './config';
+import { sessionService } from './services/session.service';
+import { FileSessionStore } from './services/session.store';
 import path from 'path';
 
 // Initializes the Express application
@@ -14,10 +17,19 @@ const app = express();
 app.use(express.json());
 
 
+// Configuration of the GUI: the path of the WebSocket endpoint (WS_PATH)
+app.get('/inspector/config.js', (req, res) => {
+  res.type('application/javascript').send(`window.INSPECTOR_CONFIG = ${JSON.stringify({ wsPath: config.wsPath })};`);
+});
+
 // Static path for the GUI 
 const inspectorStaticPath = path.join(__dirname, '/ui/inspector');
 app.use('/inspector', express.static(inspectorStaticPath));
 
+// Static path for the API documentation (renders /api/openapi.json)
+const docsStaticPath = path.join(__dirname, '/ui/docs');
+app.use('/docs', express.static(docsStaticPath));
+
 // --- Route Registration ---
 
 // Registers all API routes (from routes.ts)
@@ -30,12 +42,30 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
   res.status(500).send({ error: 'An internal server error occurred.' });
 });
 
+// --- Session Persistence ---
+// Restores all sessions saved before the last shutdown (or crash)
+if (config.sessionStoreFile) {
+  sessionService.useStore(new FileSessionStore(config.sessionStoreFile));
+  const restored = sessionService.restoreSessions();
+  console.log(`Restored ${restored} session(s) from ${config.sessionStoreFile}`);
+}
+
+// --- Session Expiry ---
+// Periodically removes sessions that were idle for too long or exceeded their lifetime
+sessionService.startSweeper();
+
 // --- Server Start ---
-app.listen(config.port, () => {
+const server = app.listen(config.port, () => {
   console.log('----------------------------------------------------------------\n');
   console.log('>> Frame-Management-Service <<\n');
 
   console.log(`Frame-Management-Service running on ---> http://localhost:${config.port}`);
   console.log(`GUI Session Management available at ---> http://localhost:${config.port}/inspector`);
+  console.log(`API documentation available at      ---> http://localhost:${config.port}/docs`);
+  console.log(`Live session updates (WebSocket) at ---> ws://localhost:${config.port}${config.wsPath}`);
   console.log('\n----------------------------------------------------------------\n');
-});
\ No newline at end of file
+});
+
+// --- WebSocket Push Channel ---
+// Shares the HTTP server, clients connect via ws://<host>:<port><wsPath>
+attachWebSocketServer(server);
\ No newline at end of file
@@ -1,12 +1,42 @@
 import {
   createActor,
+  matchesState,
   ActorRef,
   Snapshot,
   StateFrom,
+  StateValue,
 } from 'xstate';
-import { frameMachine } from '../core/frame.machine';
-import type { FrameEvent, CleanSnapshot } from '../core/machine.types';
+import { frameMachine, findFrame, toFrame, LEERER_FRAME } from '../core/frame.machine';
+import type { FrameEvent, InternesFrameEvent, CleanSnapshot, SessionMetadata, Frame, FrameInput, FrameContext } from '../core/machine.types';
 import { FrameEventTypes } from '../core/machine.types';
+import { assertValidFrameEvent, validateFrameEvent, EventValidationError, eventSchemas } from '../core/event.validator';
+import type {
+  SessionListener,
+  SessionNotification,
+  SessionRecord,
+  SessionHistoryEntry,
+  SessionHistoryEvent,
+  SessionHistoryQuery,
+  EventStepResult,
+  ReplayResult,
+  BatchResult,
+  BroadcastResult,
+  BroadcastSessionResult,
+  SessionSelector,
+  SessionListQuery,
+  SessionPage,
+  SessionSortKey,
+  EventOutcome,
+  EventResult,
+  AvailableEvent,
+  EmergencyRecord,
+  EmergencyOutcome,
+  EmergencyReport,
+  EmergencyReportQuery,
+} from './session.types';
+import type { SessionStore } from './session.store';
+import { SessionNotificationTypes, SessionListFields, SessionSortKeys, EmergencyOutcomes } from './session.types';
+import { config } from '../config';
 
 // --------------------------------------------
 // Session Service
@@ -16,13 +46,58 @@ import { FrameEventTypes } from '../core/machine.types';
 // Type definition for the snapshot of our specific machine
 type FrameMachineSnapshot = Snapshot<typeof frameMachine>;
 // Type definition for our specific Actor
-export type FrameActor = ActorRef<FrameMachineSnapshot, FrameEvent>;
+export type FrameActor = ActorRef<FrameMachineSnapshot, FrameEvent | InternesFrameEvent>;
 // Type definition for the running snapshot (StateFrom)
 type RunningSnapshot = StateFrom<typeof frameMachine>;
 
+// Everything the service keeps per session: the Actor and its lease.
+interface SessionEntry {
+  actor: FrameActor;
+  // Timestamps in milliseconds since epoch
+  createdAt: number;
+  lastActivityAt: number;
+  // Idle time after which the session expires (0 = never)
+  idleTtlMs: number;
+  // Owner, device, location and tags used to select sessions
+  metadata: SessionMetadata;
+  // Bounded audit log of the events sent to the session (oldest first)
+  history: SessionHistoryEntry[];
+  // Sequence number of the last history entry
+  historySeq: number;
+  // Bounded stacks of persisted snapshots for undo / redo (most recent last)
+  undoStack: UndoStep[];
+  redoStack: UndoStep[];
+  // The event currently sent to the Actor, so that watchSession can attribute the changes to it
+  currentEvent?: FrameEvent;
+}
+
+// A persisted snapshot together with the history entry that left it
+interface UndoStep {
+  seq: number;
+  snapshot: Snapshot<unknown>;
+}
+
+// A single event processed by a detached Actor (see runDetached)
+interface DetachedStep {
+  event: FrameEvent;
+  before: FrameMachineSnapshot;
+  after: FrameMachineSnapshot;
+  persistedBefore: Snapshot<unknown>;
+}
+
 class SessionService {
-  // The central Map that holds all active Actor instances.
-  private activeSessions: Map<string, FrameActor> = new Map();
+  // The central Map that holds all active Actor instances and their lease.
+  private activeSessions: Map<string, SessionEntry> = new Map();
+  // Listeners that are notified about session creation, state changes and deletion.
+  private listeners: Set<SessionListener> = new Set();
+  // Optional store that persists every session so it survives restarts.
+  private store: SessionStore | undefined;
+  // Timer of the background sweeper that removes expired sessions.
+  private sweepTimer: NodeJS.Timeout | undefined;
+  // Records of the emergencies of all sessions (oldest first), kept after a session is removed.
+  private emergencyLog: EmergencyRecord[] = [];
+  // Sequence number of the last emergency record
+  private emergencySeq = 0;
   // ----------------------------------------------------
   // Singleton Implementation
   // ----------------------------------------------------
@@ -51,13 +126,810 @@ class SessionService {
     }
 
     const runningSnapshot = snapshot as RunningSnapshot;
+    const entry = this.activeSessions.get(sessionId);
+    const expiresAt = entry ? this.getExpiresAt(entry) : null;
+    // The machine of the service takes its deadlines from Date.now(), so the deadline is a wall-clock time
+    const frist = runningSnapshot.context.bestaetigung?.frist;
 
     return {
       sessionId: sessionId,
       currentState: runningSnapshot.value,
-      currentFrame: runningSnapshot.context.aktuellerFrame,
+      currentFrame: runningSnapshot.context.aktuellerFrame.id,
+      frame: runningSnapshot.context.aktuellerFrame,
       context: runningSnapshot.context,
+      lastActivityAt: new Date(entry?.lastActivityAt ?? Date.now()).toISOString(),
+      expiresAt: expiresAt === null ? null : new Date(expiresAt).toISOString(),
+      confirmationRemainingMs: frist ? Math.max(0, frist - Date.now()) : null,
+      metadata: entry?.metadata ?? { tags: [] },
+    };
+  }
+
+  // ----------------------------------------------------
+  // Notifications
+  // ----------------------------------------------------
+
+  /**
+   * Registers a listener that is notified about session creation,
+   * every state change of a session and session deletion.
+   * @param listener The callback to register.
+   * @returns A function that removes the listener again.
+   */
+  public subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Delivers a notification to all listeners.
+  // A failing listener must not break the other listeners or the session itself.
+  private notify(notification: SessionNotification): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(notification);
+      } catch (e) {
+        console.error('Session listener failed:', e);
+      }
+    }
+  }
+
+  /**
+   * Subscribes to the Actor of a session and publishes a snapshot notification
+   * every time the machine produces a new snapshot.
+   * XState also notifies for ignored events, these are filtered by comparing references.
+   * An emergency whose confirmation timed out with the policy ESCALATE is published as escalation as well.
+   * Every change also updates the emergency records. Changes made by timers are no activity of the session:
+   * slideshow frame changes are not persisted (the restored Actor schedules its slideshow again),
+   * confirmation timeouts are persisted here because they change the emergency records.
+   */
+  private watchSession(sessionId: string, actor: FrameActor): void {
+    let lastSnapshot = actor.getSnapshot();
+    actor.subscribe((snapshot) => {
+      if (snapshot === lastSnapshot) return;
+      const escalated = !(lastSnapshot as RunningSnapshot).context.bestaetigung?.eskaliert
+        && !!(snapshot as RunningSnapshot).context.bestaetigung?.eskaliert;
+      const entry = this.activeSessions.get(sessionId);
+      if (entry?.actor === actor) {
+        const tracked = this.trackEmergencies(sessionId, lastSnapshot, snapshot, entry.currentEvent);
+        if (tracked && !entry.currentEvent) {
+          this.persistSession(sessionId, entry);
+        }
+      }
+      lastSnapshot = snapshot;
+      if (this.listeners.size === 0) return;
+      const cleanSnapshot = this.cleanSnapshot(snapshot, sessionId);
+      this.notify({ type: SessionNotificationTypes.SESSION_SNAPSHOT, sessionId, snapshot: cleanSnapshot });
+      const notfall = cleanSnapshot.context.aktiverNotfall;
+      if (escalated && notfall) {
+        this.notify({ type: SessionNotificationTypes.SESSION_ESCALATED, sessionId, notfall, snapshot: cleanSnapshot });
+      }
+    });
+  }
+
+  // ----------------------------------------------------
+  // Actor Lifecycle
+  // ----------------------------------------------------
+
+  /**
+   * Creates and starts an Actor, optionally from a persisted snapshot,
+   * and publishes all of its future state changes.
+   * Timers are not part of a persisted snapshot, so they are scheduled again (slideshow, confirmation timeout).
+   */
+  private startActor(sessionId: string, snapshot?: Snapshot<unknown>): FrameActor {
+    const actor = (snapshot
+      ? createActor(frameMachine, { snapshot })
+      : createActor(frameMachine)) as unknown as FrameActor;
+    actor.start();
+    if (snapshot) {
+      actor.send({ type: 'TIMER_FORTSETZEN' });
+    }
+    this.watchSession(sessionId, actor);
+    return actor;
+  }
+
+  // Creates the entry of a new session with a fresh lease, history and undo stacks.
+  private newEntry(actor: FrameActor, now: number, metadata: SessionMetadata = { tags: [] }): SessionEntry {
+    return {
+      actor,
+      createdAt: now,
+      lastActivityAt: now,
+      idleTtlMs: config.sessionIdleTtlMs,
+      metadata,
+      history: [],
+      historySeq: 0,
+      undoStack: [],
+      redoStack: [],
+    };
+  }
+
+  /**
+   * Replaces the Actor of a session with a new Actor started from a persisted snapshot.
+   * A running Actor can not jump to another snapshot, so the old one is stopped.
+   * The emergency records are updated from the difference between the old and the new snapshot,
+   * e.g. an emergency an undo brings back to confirmation is requested again.
+   */
+  private replaceActor(sessionId: string, entry: SessionEntry, snapshot: Snapshot<unknown>): void {
+    const previous = entry.actor.getSnapshot();
+    entry.actor.stop();
+    entry.actor = this.startActor(sessionId, snapshot);
+    this.trackEmergencies(sessionId, previous, entry.actor.getSnapshot(), undefined, true);
+    this.notify({
+      type: SessionNotificationTypes.SESSION_SNAPSHOT,
+      sessionId,
+      snapshot: this.cleanSnapshot(entry.actor.getSnapshot(), sessionId),
+    });
+  }
+
+  // ----------------------------------------------------
+  // Persistence
+  // ----------------------------------------------------
+
+  /**
+   * Sets the store used to persist sessions (or `undefined` to disable persistence).
+   * @param store The SessionStore implementation.
+   */
+  public useStore(store: SessionStore | undefined): void {
+    this.store = store;
+  }
+
+  /**
+   * Rehydrates all sessions of the store into running Actors and loads the emergency records.
+   * Already active sessions with the same ID are replaced.
+   * @returns The number of restored sessions.
+   */
+  public restoreSessions(): number {
+    if (!this.store) return 0;
+
+    this.emergencyLog = this.store.loadEmergencies();
+    this.emergencySeq = this.emergencyLog.reduce((max, record) => Math.max(max, record.seq), 0);
+    let restored = 0;
+    const now = Date.now();
+    for (const record of this.store.loadAll()) {
+      try {
+        const actor = this.startActor(record.sessionId, this.upgradeSnapshot(record.snapshot));
+        this.activeSessions.get(record.sessionId)?.actor.stop();
+        this.activeSessions.set(record.sessionId, {
+          ...this.newEntry(actor, now),
+          createdAt: record.createdAt ?? now,
+          lastActivityAt: record.lastActivityAt ?? now,
+          idleTtlMs: record.idleTtlMs ?? config.sessionIdleTtlMs,
+          metadata: record.metadata ?? { tags: [] },
+        });
+        restored++;
+      } catch (e) {
+        console.error(`Session '${record.sessionId}' could not be restored:`, e);
+      }
+    }
+    return restored;
+  }
+
+  // Snapshots saved before frames were objects contain plain strings, they are converted to frames on restore.
+  // Older snapshots also lack the lists of the registered list contexts, the navigation modes, the slideshows, the emergency queue and the confirmation timeout.
+  private upgradeSnapshot(snapshot: Snapshot<unknown>): Snapshot<unknown> {
+    const context = (snapshot as { context?: Partial<Record<keyof FrameContext, unknown>> }).context;
+    if (!context) return snapshot;
+    const upgradedContext = {
+      ...context,
+      entitaetListe: this.upgradeFrames(context.entitaetListe),
+      allgemeineListe: this.upgradeFrames(context.allgemeineListe),
+      notfallListe: this.upgradeFrames(context.notfallListe),
+      weitereListen: context.weitereListen ?? {},
+      weitereIndizes: context.weitereIndizes ?? {},
+      navigationsModi: context.navigationsModi ?? {},
+      navigationsRichtungen: context.navigationsRichtungen ?? {},
+      diashow: context.diashow ?? {},
+      aktiverNotfall: context.aktiverNotfall ?? null,
+      notfallWarteschlange: context.notfallWarteschlange ?? [],
+      notfallZaehler: context.notfallZaehler ?? 0,
+      bestaetigung: context.bestaetigung ?? null,
+      aktuellerFrame: this.isFrameInput(context.aktuellerFrame) ? toFrame(context.aktuellerFrame) : LEERER_FRAME,
+    };
+    return { ...snapshot, context: upgradedContext } as unknown as Snapshot<unknown>;
+  }
+
+  // Checks that a stored frame is a plain string or an object with an ID.
+  private isFrameInput(value: unknown): value is FrameInput {
+    return (typeof value === 'string' && value !== '')
+      || (typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'string');
+  }
+
+  // Converts the stored frames of a list, a missing list is empty.
+  private upgradeFrames(list: unknown): Frame[] {
+    return Array.isArray(list) ? list.filter((frame): frame is FrameInput => this.isFrameInput(frame)).map(toFrame) : [];
+  }
+
+  // Saves the persisted snapshot of a session.
+  // A failing store must not break the session, the state is still kept in memory.
+  private persistSession(sessionId: string, entry: SessionEntry): void {
+    if (!this.store) return;
+    const record: SessionRecord = {
+      sessionId,
+      snapshot: entry.actor.getPersistedSnapshot(),
+      createdAt: entry.createdAt,
+      lastActivityAt: entry.lastActivityAt,
+      idleTtlMs: entry.idleTtlMs,
+      metadata: entry.metadata,
+    };
+    try {
+      this.store.save(record);
+    } catch (e) {
+      console.error(`Session '${sessionId}' could not be persisted:`, e);
+    }
+  }
+
+  // Saves the changed emergency records.
+  private persistEmergencies(records: Iterable<EmergencyRecord>): void {
+    if (!this.store) return;
+    try {
+      for (const record of records) {
+        this.store.saveEmergency({ ...record });
+      }
+    } catch (e) {
+      console.error('Emergency records could not be persisted:', e);
+    }
+  }
+
+  // Removes a session from the store.
+  private unpersistSession(sessionId: string): void {
+    if (!this.store) return;
+    try {
+      this.store.remove(sessionId);
+    } catch (e) {
+      console.error(`Session '${sessionId}' could not be removed from the store:`, e);
+    }
+  }
+
+  // ----------------------------------------------------
+  // Session Expiry
+  // ----------------------------------------------------
+
+  /**
+   * Calculates when a session expires: after its idle TTL without activity
+   * or after the absolute max lifetime, whichever comes first.
+   * @returns The timestamp in milliseconds or `null` if the session never expires.
+   */
+  private getExpiresAt(entry: SessionEntry): number | null {
+    const idleExpiry = entry.idleTtlMs > 0 ? entry.lastActivityAt + entry.idleTtlMs : Infinity;
+    const lifetimeExpiry = config.sessionMaxLifetimeMs > 0 ? entry.createdAt + config.sessionMaxLifetimeMs : Infinity;
+    const expiresAt = Math.min(idleExpiry, lifetimeExpiry);
+    return expiresAt === Infinity ? null : expiresAt;
+  }
+
+  /**
+   * Extends the lease of a session: resets its idle timer and optionally sets a new idle TTL.
+   * The absolute max lifetime can not be extended.
+   * @param sessionId The ID of the session.
+   * @param idleTtlMs Optional new idle TTL in milliseconds for this session.
+   * @returns The snapshot of the session with the new expiry.
+   */
+  public extendLease(sessionId: string, idleTtlMs?: number): CleanSnapshot {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    if (idleTtlMs !== undefined && (!Number.isFinite(idleTtlMs) || idleTtlMs <= 0)) {
+      throw new Error('Invalid input: idleTtlMs must be a positive number.');
+    }
+    const entry = this.activeSessions.get(sessionId);
+    if (!entry) {
+      throw new Error(`Session with ID '${sessionId}' not found.`);
+    }
+
+    entry.lastActivityAt = Date.now();
+    if (idleTtlMs !== undefined) {
+      entry.idleTtlMs = idleTtlMs;
+    }
+    this.persistSession(sessionId, entry);
+
+    return this.cleanSnapshot(entry.actor.getSnapshot(), sessionId);
+  }
+
+  /**
+   * Stops and removes all sessions that are expired at the given time.
+   * @param now The reference time in milliseconds (defaults to the current time).
+   * @returns The IDs of the removed sessions.
+   */
+  public sweepExpiredSessions(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+    for (const [sessionId, entry] of this.activeSessions.entries()) {
+      const expiresAt = this.getExpiresAt(entry);
+      if (expiresAt !== null && expiresAt <= now) {
+        expired.push(sessionId);
+      }
+    }
+    expired.forEach((sessionId) => this.removeSession(sessionId));
+    return expired;
+  }
+
+  /**
+   * Starts the background sweeper that periodically removes expired sessions.
+   * The timer does not keep the Node.js process alive.
+   * @param intervalMs The interval between two sweeps.
+   */
+  public startSweeper(intervalMs: number = config.sessionSweepIntervalMs): void {
+    this.stopSweeper();
+    this.sweepTimer = setInterval(() => {
+      const expired = this.sweepExpiredSessions();
+      if (expired.length > 0) {
+        console.log(`Removed ${expired.length} expired session(s): ${expired.join(', ')}`);
+      }
+    }, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  // Stops the background sweeper.
+  public stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  // ----------------------------------------------------
+  // Event History (Audit Log)
+  // ----------------------------------------------------
+
+  /**
+   * Checks whether processing an event changed the state value or the context.
+   * XState keeps the same snapshot object when no transition was taken, but
+   * also creates a new one when a transition was taken without any effect
+   * (e.g. SUCHE_FRAME for a frame that does not exist). `assign` keeps the
+   * references of unchanged context properties, so a shallow comparison is enough.
+   */
+  private hasChanged(before: FrameMachineSnapshot, after: FrameMachineSnapshot): boolean {
+    if (before === after) return false;
+    const runningBefore = before as RunningSnapshot;
+    const runningAfter = after as RunningSnapshot;
+    if (JSON.stringify(runningBefore.value) !== JSON.stringify(runningAfter.value)) return true;
+    if (runningBefore.status !== runningAfter.status) return true;
+
+    const contextBefore = runningBefore.context as unknown as Record<string, unknown>;
+    const contextAfter = runningAfter.context as unknown as Record<string, unknown>;
+    const keys = new Set([...Object.keys(contextBefore), ...Object.keys(contextAfter)]);
+    return Array.from(keys).some((key) => contextBefore[key] !== contextAfter[key]);
+  }
+
+  /**
+   * Appends an event to the history of a session.
+   * The history is bounded by config.sessionHistoryLimit, the oldest entries are dropped.
+   */
+  private recordHistory(
+    entry: SessionEntry,
+    event: SessionHistoryEvent,
+    before: FrameMachineSnapshot,
+    after: FrameMachineSnapshot
+  ): SessionHistoryEntry {
+    const runningBefore = before as RunningSnapshot;
+    const runningAfter = after as RunningSnapshot;
+
+    entry.historySeq++;
+    const historyEntry: SessionHistoryEntry = {
+      seq: entry.historySeq,
+      timestamp: new Date(entry.lastActivityAt).toISOString(),
+      event,
+      stateBefore: runningBefore.value,
+      stateAfter: runningAfter.value,
+      frameBefore: runningBefore.context.aktuellerFrame.id,
+      frameAfter: runningAfter.context.aktuellerFrame.id,
+      transitioned: this.hasChanged(before, after),
     };
+    entry.history.push(historyEntry);
+
+    const overflow = entry.history.length - config.sessionHistoryLimit;
+    if (overflow > 0) {
+      entry.history.splice(0, overflow);
+    }
+    return historyEntry;
+  }
+
+  /**
+   * Retrieves the recorded events of a session (oldest first).
+   * @param sessionId The ID of the session.
+   * @param query Optional filter: only entries after `since` and at most the `limit` most recent entries.
+   * @returns The matching history entries.
+   */
+  public getHistory(sessionId: string, query: SessionHistoryQuery = {}): SessionHistoryEntry[] {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    const entry = this.activeSessions.get(sessionId);
+    if (!entry) {
+      throw new Error(`Session with ID '${sessionId}' not found.`);
+    }
+
+    let history = entry.history;
+    if (query.since !== undefined) {
+      const since = query.since;
+      history = history.filter((item) => Date.parse(item.timestamp) > since);
+    }
+    if (query.limit !== undefined) {
+      history = query.limit > 0 ? history.slice(-query.limit) : [];
+    }
+    return [...history];
+  }
+
+  // ----------------------------------------------------
+  // Emergency Records
+  // ----------------------------------------------------
+
+  /**
+   * Updates the emergency records of a session from the snapshots before and after a change:
+   * received emergencies, confirmation requests, reminders, escalations and answers.
+   * Pending emergencies that are neither displayed nor queued anymore were dropped without an answer.
+   * Only the changed records are persisted.
+   * @param event The event that caused the change (`undefined` for changes made by timers).
+   * @param replaced Whether the Actor was replaced (undo, redo, time travel or replay), so no timer answered.
+   * @returns Whether a record was added or updated.
+   */
+  private trackEmergencies(
+    sessionId: string,
+    before: FrameMachineSnapshot,
+    after: FrameMachineSnapshot,
+    event?: FrameEvent,
+    replaced = false
+  ): boolean {
+    const runningBefore = before as RunningSnapshot;
+    const runningAfter = after as RunningSnapshot;
+    const contextBefore = runningBefore.context;
+    const context = runningAfter.context;
+    const now = Date.now();
+    const changed = new Set<EmergencyRecord>();
+
+    const records = this.emergencyLog.filter((record) => record.sessionId === sessionId);
+    const pending = (id: string) => records.find((record) => record.id === id && record.outcome === 'PENDING');
+    const add = (record: Omit<EmergencyRecord, 'seq'>): EmergencyRecord => {
+      const added = { ...record, seq: ++this.emergencySeq };
+      records.push(added);
+      this.emergencyLog.push(added);
+      changed.add(added);
+      return added;
+    };
+    const resolve = (record: EmergencyRecord, outcome: EmergencyOutcome) => {
+      this.resolveEmergency(record, outcome, now);
+      changed.add(record);
+    };
+
+    // Received (generated IDs are numbered by the emergency counter, see toNotfall)
+    if (event?.type === FrameEventTypes.NOTFALL_EMPFANGEN && context.notfallZaehler > contextBefore.notfallZaehler) {
+      const id = event.id ?? `NOTFALL-${context.notfallZaehler}`;
+      const replaced = pending(id);
+      if (replaced) resolve(replaced, 'REPLACED');
+      const list = context.aktiverNotfall?.id === id
+        ? context.notfallListe
+        : context.notfallWarteschlange.find((notfall) => notfall.id === id)?.list ?? [];
+      add({
+        sessionId,
+        id,
+        priority: event.priority ?? 0,
+        list,
+        receivedAt: new Date(now).toISOString(),
+        displayedAt: null,
+        resolvedAt: null,
+        confirmationMs: null,
+        outcome: 'PENDING',
+        user: null,
+        comment: null,
+        reminders: 0,
+        escalated: false,
+      });
+    }
+
+    // Confirmation requested: an emergency that was already answered before it was preempted
+    // has to be confirmed again, which is recorded as a new request
+    const notfall = context.aktiverNotfall;
+    if (notfall && notfall !== contextBefore.aktiverNotfall) {
+      let record = pending(notfall.id);
+      const answered = [...records].reverse().find((item) => item.id === notfall.id);
+      if (!record && answered && runningAfter.matches({ NotfallModus: 'Bestaetigen' })) {
+        record = add({ ...answered, displayedAt: null, resolvedAt: null, confirmationMs: null, outcome: 'PENDING', user: null, comment: null });
+      }
+      if (record && record.displayedAt === null) {
+        record.displayedAt = new Date(now).toISOString();
+        changed.add(record);
+      }
+    }
+
+    // Reminders and escalation of the displayed emergency
+    const bestaetigung = context.bestaetigung;
+    if (notfall && bestaetigung && bestaetigung !== contextBefore.bestaetigung) {
+      const record = pending(notfall.id);
+      if (record) {
+        record.reminders = bestaetigung.erinnerungen;
+        record.escalated = record.escalated || bestaetigung.eskaliert;
+        changed.add(record);
+      }
+    }
+
+    // Answered by a user or accepted after the timeout
+    const previous = contextBefore.aktiverNotfall;
+    const record = previous && runningBefore.matches({ NotfallModus: 'Bestaetigen' }) ? pending(previous.id) : undefined;
+    if (record && event?.type === FrameEventTypes.USER_BESTAETIGT_NOTFALL && this.hasChanged(before, after)) {
+      record.user = event.user ?? null;
+      record.comment = event.comment ?? null;
+      resolve(record, event.accepted ? 'ACCEPTED' : 'REJECTED');
+    } else if (record && !event && !replaced && runningAfter.matches({ NotfallModus: 'Anzeigen' })) {
+      resolve(record, 'AUTO_ACCEPTED');
+    } else if (record && replaced && !runningAfter.matches({ NotfallModus: 'Bestaetigen' })) {
+      resolve(record, 'DISCARDED');
+    }
+
+    // Dropped without an answer, e.g. by ZURUCKSETZEN or an undo
+    const known = new Set([notfall?.id, ...context.notfallWarteschlange.map((item) => item.id)]);
+    records
+      .filter((item) => item.outcome === 'PENDING' && !known.has(item.id))
+      .forEach((item) => resolve(item, 'DISCARDED'));
+
+    this.persistEmergencies(changed);
+    return changed.size > 0;
+  }
+
+  // Sets the outcome of an emergency, the confirmation time is only measured for answers.
+  private resolveEmergency(record: EmergencyRecord, outcome: EmergencyOutcome, now: number): void {
+    record.outcome = outcome;
+    record.resolvedAt = new Date(now).toISOString();
+    record.confirmationMs = record.displayedAt && outcome !== 'REPLACED' && outcome !== 'DISCARDED'
+      ? now - Date.parse(record.displayedAt)
+      : null;
+  }
+
+  // Records the emergencies still pending when a session is removed as discarded.
+  private discardEmergencies(sessionId: string): void {
+    const now = Date.now();
+    const pending = this.emergencyLog.filter((record) => record.sessionId === sessionId && record.outcome === 'PENDING');
+    pending.forEach((record) => this.resolveEmergency(record, 'DISCARDED', now));
+    this.persistEmergencies(pending);
+  }
+
+  /**
+   * Retrieves the records of the emergencies a session received (oldest first),
+   * including those of earlier sessions with the same ID (e.g. before a replay).
+   * @param sessionId The ID of the session.
+   * @returns The emergency records of the session.
+   */
+  public getEmergencies(sessionId: string): EmergencyRecord[] {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    if (!this.activeSessions.has(sessionId)) {
+      throw new Error(`Session with ID '${sessionId}' not found.`);
+    }
+    return this.emergencyLog
+      .filter((record) => record.sessionId === sessionId)
+      .map((record) => ({ ...record }));
+  }
+
+  /**
+   * Reports the emergencies of all sessions, including removed ones: how long their confirmation took and their outcome.
+   * @param query Optional filter: only emergencies received after `since` and with the given outcome.
+   * @returns The matching emergencies (oldest first), the number per outcome, the average confirmation time
+   * and the number of answers without a user.
+   */
+  public getEmergencyReport(query: EmergencyReportQuery = {}): EmergencyReport {
+    const emergencies = this.emergencyLog
+      .filter((record) => query.since === undefined || Date.parse(record.receivedAt) > query.since)
+      .filter((record) => query.outcome === undefined || record.outcome === query.outcome)
+      .sort((a, b) => Date.parse(a.receivedAt) - Date.parse(b.receivedAt))
+      .map((record) => ({ ...record }));
+
+    const summary = Object.fromEntries(EmergencyOutcomes.map((outcome) => [outcome, 0])) as Record<EmergencyOutcome, number>;
+    emergencies.forEach((record) => summary[record.outcome]++);
+    const durations = emergencies
+      .map((record) => record.confirmationMs)
+      .filter((ms): ms is number => ms !== null);
+
+    return {
+      count: emergencies.length,
+      summary,
+      averageConfirmationMs: durations.length > 0
+        ? Math.round(durations.reduce((sum, ms) => sum + ms, 0) / durations.length)
+        : null,
+      anonymousAnswers: emergencies
+        .filter((record) => (record.outcome === 'ACCEPTED' || record.outcome === 'REJECTED') && record.user === null)
+        .length,
+      emergencies,
+    };
+  }
+
+  // ----------------------------------------------------
+  // Event Outcome
+  // ----------------------------------------------------
+
+  // Converts a state value into a readable path, e.g. { ArbeitsModus: 'Entitaet' } -> 'ArbeitsModus.Entitaet'
+  private toStatePath(value: unknown): string {
+    if (typeof value === 'string') return value;
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, child]) => `${key}.${this.toStatePath(child)}`)
+      .join(', ');
+  }
+
+  /**
+   * Resolves the state of a snapshot in a copy of its machine with replaced guards,
+   * so `can()` tells whether the state handles an event at all and which guards reject it.
+   * @param decide Decides every evaluated guard, given its name and its original implementation.
+   */
+  private withGuards(snapshot: RunningSnapshot, decide: (name: string, evaluate: () => boolean) => boolean): RunningSnapshot {
+    const guards = snapshot.machine.implementations.guards as Record<string, (...args: unknown[]) => boolean>;
+    const replaced = Object.fromEntries(Object.entries(guards)
+      .map(([name, guard]) => [name, (...args: unknown[]) => decide(name, () => guard(...args))]));
+    return snapshot.machine
+      .provide({ guards: replaced })
+      .resolveState({ value: snapshot.value, context: snapshot.context });
+  }
+
+  /**
+   * Explains what an event did to a session, based on the snapshots before and after the event
+   * and on the guards the machine evaluates for the event.
+   * @param event The event that was sent.
+   * @param before The snapshot before the event.
+   * @param after The snapshot after the event.
+   */
+  private describeOutcome(event: FrameEvent, before: FrameMachineSnapshot, after: FrameMachineSnapshot): EventOutcome {
+    const runningBefore = before as RunningSnapshot;
+    const runningAfter = after as RunningSnapshot;
+    const stateBefore = this.toStatePath(runningBefore.value);
+
+    if (this.hasChanged(before, after)) {
+      const stateAfter = this.toStatePath(runningAfter.value);
+      if (stateBefore !== stateAfter) {
+        return { status: 'transitioned', reason: `${event.type} changed the state from ${stateBefore} to ${stateAfter}.` };
+      }
+      const contextBefore = runningBefore.context as unknown as Record<string, unknown>;
+      const contextAfter = runningAfter.context as unknown as Record<string, unknown>;
+      const changedKeys = Object.keys(contextAfter).filter((key) => contextBefore[key] !== contextAfter[key]);
+      return {
+        status: 'context_changed',
+        reason: `${event.type} changed ${changedKeys.join(', ')} in ${stateBefore}.`,
+      };
+    }
+
+    if (runningBefore.status !== 'active') {
+      return { status: 'not_handled', reason: `The session has completed (${stateBefore}) and does not handle events anymore.` };
+    }
+    if (!this.withGuards(runningBefore, () => true).can(event)) {
+      return { status: 'not_handled', reason: `${event.type} is not handled in ${stateBefore}.` };
+    }
+    if (!runningBefore.can(event)) {
+      const rejected = new Set<string>();
+      this.withGuards(runningBefore, (name, evaluate) => {
+        const passed = evaluate();
+        if (!passed) rejected.add(name);
+        return passed;
+      }).can(event);
+      const guards = [...rejected];
+      return {
+        status: 'ignored_by_guard',
+        reason: `${event.type} is handled in ${stateBefore}, but was rejected by ${guards.length > 0 ? `guard ${guards.join(', ')}` : 'a guard'}.`,
+      };
+    }
+    return { status: 'unchanged', reason: `${event.type} was handled in ${stateBefore}, but changed neither state nor context.` };
+  }
+
+  /**
+   * Lists which event types would be handled in the current snapshot of a session,
+   * so clients do not have to duplicate the guards of the machine.
+   * Guards are evaluated for events without payload (e.g. hasNextFrame for NAECHSTER_FRAME);
+   * for events whose guards depend on the payload only the state structure is considered.
+   * @param sessionId The ID of the session.
+   * @returns One entry per event type.
+   */
+  public getAvailableEvents(sessionId: string): AvailableEvent[] {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    const entry = this.activeSessions.get(sessionId);
+    if (!entry) {
+      throw new Error(`Session with ID '${sessionId}' not found.`);
+    }
+
+    const snapshot = entry.actor.getSnapshot() as RunningSnapshot;
+    if (snapshot.status !== 'active') {
+      return Object.values(FrameEventTypes).map((type) => ({ type, available: false, payloadDependent: false }));
+    }
+    // Guards are not evaluated in these copies, so the events do not need a payload
+    const handled = this.withGuards(snapshot, () => true);
+    const unguarded = this.withGuards(snapshot, () => false);
+    return Object.values(FrameEventTypes).map((type): AvailableEvent => {
+      const event = { type } as FrameEvent;
+      if (!handled.can(event)) {
+        return { type, available: false, payloadDependent: false };
+      }
+      if (Object.keys(eventSchemas[type]).length === 0) {
+        return { type, available: snapshot.can(event), payloadDependent: false };
+      }
+      // An unguarded transition handles the event regardless of its payload
+      return { type, available: true, payloadDependent: !unguarded.can(event) };
+    });
+  }
+
+  // ----------------------------------------------------
+  // Undo / Redo (Time Travel)
+  // ----------------------------------------------------
+
+  // Pushes an undo step, drops the oldest steps beyond config.sessionUndoLimit
+  // and invalidates the redo stack because a new branch of events started.
+  private pushUndoStep(entry: SessionEntry, step: UndoStep): void {
+    entry.undoStack.push(step);
+    const overflow = entry.undoStack.length - config.sessionUndoLimit;
+    if (overflow > 0) {
+      entry.undoStack.splice(0, overflow);
+    }
+    entry.redoStack = [];
+  }
+
+  /**
+   * Moves a session `steps` snapshots from one stack to the other and restores the resulting snapshot.
+   * The move is recorded in the history, so every undo can be redone and vice versa.
+   */
+  private travel(sessionId: string, direction: 'UNDO' | 'REDO', steps: number): CleanSnapshot {
+    const entry = this.activeSessions.get(sessionId);
+    if (!entry) {
+      throw new Error(`Session with ID '${sessionId}' not found.`);
+    }
+    const [from, to] = direction === 'UNDO'
+      ? [entry.undoStack, entry.redoStack]
+      : [entry.redoStack, entry.undoStack];
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error('Invalid input: steps must be a positive integer.');
+    }
+    if (steps > from.length) {
+      throw new Error(`Cannot ${direction.toLowerCase()} ${steps} step(s), only ${from.length} available.`);
+    }
+
+    const snapshotBefore = entry.actor.getSnapshot();
+    let current = entry.actor.getPersistedSnapshot();
+    for (let i = 0; i < steps; i++) {
+      const step = from.pop()!;
+      to.push({ seq: step.seq, snapshot: current });
+      current = step.snapshot;
+    }
+
+    this.replaceActor(sessionId, entry, current);
+    entry.lastActivityAt = Date.now();
+    this.recordHistory(entry, { type: direction, steps }, snapshotBefore, entry.actor.getSnapshot());
+    this.persistSession(sessionId, entry);
+
+    return this.cleanSnapshot(entry.actor.getSnapshot(), sessionId);
+  }
+
+  /**
+   * Steps a session back by restoring the snapshot before an earlier event.
+   * Only events that caused a transition can be undone, at most config.sessionUndoLimit.
+   * @param sessionId The ID of the session.
+   * @param target Either the number of `steps` to go back (default 1) or the history entry `toSeq`
+   * whose event (and all later ones) should be undone.
+   * @returns The restored snapshot.
+   */
+  public undo(sessionId: string, target: { steps?: number; toSeq?: number } = {}): CleanSnapshot {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    const entry = this.activeSessions.get(sessionId);
+    if (!entry) {
+      throw new Error(`Session with ID '${sessionId}' not found.`);
+    }
+
+    let steps = target.steps ?? 1;
+    if (target.toSeq !== undefined) {
+      const index = entry.undoStack.findIndex((step) => step.seq >= target.toSeq!);
+      if (index === -1 || entry.undoStack[0].seq > target.toSeq) {
+        throw new Error(`Cannot undo to history entry ${target.toSeq}, it is not available for undo.`);
+      }
+      steps = entry.undoStack.length - index;
+    }
+    return this.travel(sessionId, 'UNDO', steps);
+  }
+
+  /**
+   * Re-applies snapshots that were undone before.
+   * The redo stack is discarded as soon as a new event is sent.
+   * @param sessionId The ID of the session.
+   * @param steps The number of undone steps to redo (default 1).
+   * @returns The restored snapshot.
+   */
+  public redo(sessionId: string, steps = 1): CleanSnapshot {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    return this.travel(sessionId, 'REDO', steps);
   }
 
   // ----------------------------------------------------
@@ -68,27 +940,45 @@ class SessionService {
    * Creates and starts a new session (Actor) and stores it in the Map.
    *
    * @param sessionId Unique ID for the session.
+   * @param metadata Optional owner, device, location and tags of the session.
    * @returns The initial snapshot of the created session.
    */
-  public createSession(sessionId: string): CleanSnapshot {
+  public createSession(sessionId: string, metadata: Partial<SessionMetadata> = {}): CleanSnapshot {
     if (!sessionId || sessionId.trim() === '') {
       throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
     } 
+    if (metadata.tags !== undefined
+        && (!Array.isArray(metadata.tags) || !metadata.tags.every((tag) => typeof tag === 'string' && tag.trim() !== ''))) {
+      throw new Error('Invalid input: tags must be an array of non-empty strings.');
+    }
+    for (const field of ['owner', 'device', 'location'] as const) {
+      if (metadata[field] !== undefined && typeof metadata[field] !== 'string') {
+        throw new Error(`Invalid input: ${field} must be a string.`);
+      }
+    }
 
-    // 1. Create a new Actor (State Machine instance)
-    const actor = createActor(frameMachine) as unknown as FrameActor;
-
-    // 2. Store the Actor in the Map
-    this.activeSessions.set(sessionId, actor);
+    // 1. Create and start a new Actor (State Machine instance),
+    // all future state changes of the Actor are published
+    const actor = this.startActor(sessionId);
 
-    // 3. Start the Actor so it can receive events
-    actor.start();
+    // 2. Store the Actor together with its lease in the Map
+    const entry = this.newEntry(actor, Date.now(), {
+      owner: metadata.owner,
+      device: metadata.device,
+      location: metadata.location,
+      tags: metadata.tags ?? [],
+    });
+    this.activeSessions.set(sessionId, entry);
+    this.persistSession(sessionId, entry);
 
-    return this.cleanSnapshot(actor.getSnapshot(), sessionId);
+    const cleanSnapshot = this.cleanSnapshot(actor.getSnapshot(), sessionId);
+    this.notify({ type: SessionNotificationTypes.SESSION_CREATED, sessionId, snapshot: cleanSnapshot });
+    return cleanSnapshot;
   }
 
   /**
    * Stops and removes a running session (Actor) from memory.
+   * Its emergency records are kept, pending ones are recorded as discarded.
    * @param sessionId The ID of the session to remove.
    * @returns `true` if the session was removed, `false` if it did not exist.
    */
@@ -103,7 +993,13 @@ class SessionService {
     }
 
     actor.stop(); // Stops the State Machine
-    return this.activeSessions.delete(sessionId);
+    const wasDeleted = this.activeSessions.delete(sessionId);
+    if (wasDeleted) {
+      this.unpersistSession(sessionId);
+      this.discardEmergencies(sessionId);
+      this.notify({ type: SessionNotificationTypes.SESSION_DELETED, sessionId });
+    }
+    return wasDeleted;
   }
 
   /**
@@ -118,7 +1014,268 @@ class SessionService {
     if (!this.activeSessions.has(sessionId)) {
       return undefined;
     }
-      return this.activeSessions.get(sessionId);
+      return this.activeSessions.get(sessionId)?.actor;
+  }
+
+  // ----------------------------------------------------
+  // Detached Event Processing
+  // ----------------------------------------------------
+
+  // Checks that an event has a known FrameEventTypes type.
+  private isFrameEvent(event: FrameEvent | undefined | null): boolean {
+    return !!event
+      && typeof event.type !== 'undefined'
+      && event.type.toString().trim() !== ''
+      && Object.values(FrameEventTypes).includes(event.type as any);
+  }
+
+  // Validates the payload of every event, reports the fields of all invalid events at once
+  private assertValidEvents(events: FrameEvent[]): void {
+    const errors = events.flatMap((event, index) => validateFrameEvent(event, `events[${index}].`));
+    if (errors.length > 0) {
+      throw new EventValidationError(errors);
+    }
+  }
+
+  /**
+   * Applies events to a detached Actor that is not visible to any observer.
+   * @param snapshot The persisted snapshot to start from (`undefined` starts a fresh machine).
+   * @param events The events to apply in order.
+   * @returns Every processed step and the persisted snapshot after the last event.
+   */
+  private runDetached(
+    snapshot: Snapshot<unknown> | undefined,
+    events: FrameEvent[]
+  ): { steps: DetachedStep[]; finalSnapshot: Snapshot<unknown> } {
+    const actor = (snapshot
+      ? createActor(frameMachine, { snapshot })
+      : createActor(frameMachine)) as unknown as FrameActor;
+    actor.start();
+
+    const steps: DetachedStep[] = [];
+    for (const event of events) {
+      const before = actor.getSnapshot();
+      const persistedBefore = actor.getPersistedSnapshot();
+      actor.send(event);
+      steps.push({ event, before, after: actor.getSnapshot(), persistedBefore });
+    }
+
+    const finalSnapshot = actor.getPersistedSnapshot();
+    actor.stop();
+    return { steps, finalSnapshot };
+  }
+
+  /**
+   * Applies the result of a detached run to a session in one go:
+   * records every step in the history and the undo stack, then swaps in the final snapshot.
+   * Observers only see the final snapshot, never the intermediate ones.
+   * @returns The result of every step with the clean snapshot after it.
+   */
+  private commitDetached(
+    sessionId: string,
+    entry: SessionEntry,
+    run: { steps: DetachedStep[]; finalSnapshot: Snapshot<unknown> }
+  ): EventStepResult[] {
+    entry.lastActivityAt = Date.now();
+    const results = run.steps.map((step) => {
+      const historyEntry = this.recordHistory(entry, step.event, step.before, step.after);
+      this.trackEmergencies(sessionId, step.before, step.after, step.event);
+      if (historyEntry.transitioned) {
+        this.pushUndoStep(entry, { seq: historyEntry.seq, snapshot: step.persistedBefore });
+      }
+      return {
+        event: step.event,
+        transitioned: historyEntry.transitioned,
+        snapshot: this.cleanSnapshot(step.after, sessionId),
+      };
+    });
+
+    this.replaceActor(sessionId, entry, run.finalSnapshot);
+    this.persistSession(sessionId, entry);
+    return results;
+  }
+
+  /**
+   * Rebuilds a session by replaying an ordered event log on a fresh machine.
+   * An existing session is rebuilt in place: it keeps its metadata (owner, device, location, tags) and lease,
+   * its history and undo steps start over and observers receive the new snapshot instead of a deletion.
+   * @param sessionId The ID of the session to (re)create.
+   * @param events The events to replay in order.
+   * @returns The final snapshot and the snapshot after every single event.
+   */
+  public replaySession(sessionId: string, events: FrameEvent[]): ReplayResult {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    if (!Array.isArray(events)) {
+      throw new Error('Invalid input: events must be an array of events.');
+    }
+    const invalidIndex = events.findIndex((event) => !this.isFrameEvent(event));
+    if (invalidIndex !== -1) {
+      throw new Error(`Invalid input: event at index ${invalidIndex} is not a valid event.`);
+    }
+    this.assertValidEvents(events);
+
+    // 1. Replay all events on a fresh, detached machine
+    const run = this.runDetached(undefined, events);
+
+    // 2. Reset an existing session or create a new one and apply the result
+    // (sequence numbers keep counting, so clients never see a number twice)
+    let entry = this.activeSessions.get(sessionId);
+    if (entry) {
+      entry.history = [];
+      entry.undoStack = [];
+      entry.redoStack = [];
+      this.discardEmergencies(sessionId);
+    } else {
+      this.createSession(sessionId);
+      entry = this.activeSessions.get(sessionId)!;
+    }
+    const steps = this.commitDetached(sessionId, entry, run);
+
+    return { cleanSnapshot: this.cleanSnapshot(entry.actor.getSnapshot(), sessionId), steps };
+  }
+
+  /**
+   * Checks whether an event of a batch was rejected: the machine does not handle it in the current state,
+   * a guard blocked it or SUCHE_FRAME found no frame. Handled events without effect
+   * (e.g. ERSTER_FRAME at the first frame or SUCHE_FRAME for the current frame) are not rejected.
+   */
+  private isRejected(step: DetachedStep): boolean {
+    const { status } = this.describeOutcome(step.event, step.before, step.after);
+    if (status === 'not_handled' || status === 'ignored_by_guard') return true;
+    return step.event.type === FrameEventTypes.SUCHE_FRAME
+      && !findFrame((step.before as RunningSnapshot).context, step.event).found;
+  }
+
+  /**
+   * Sends several events to a session as one atomic batch.
+   * The events are applied to a detached copy of the session; only if no event was rejected
+   * (see isRejected), the result is swapped in, otherwise the session keeps its prior snapshot.
+   * Observers never see the intermediate snapshots.
+   * @param sessionId The ID of the session.
+   * @param events The events to apply in order.
+   * @returns Whether the batch was applied, the resulting snapshot and the result of every event.
+   */
+  public sendEvents(sessionId: string, events: FrameEvent[]): BatchResult {
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error('Invalid Session-ID: sessionId is undefined or empty.');
+    }
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new Error('Invalid input: events must be a non-empty array of events.');
+    }
+    const invalidIndex = events.findIndex((event) => !this.isFrameEvent(event));
+    if (invalidIndex !== -1) {
+      throw new Error(`Invalid input: event at index ${invalidIndex} is not a valid event.`);
+    }
+    this.assertValidEvents(events);
+    const entry = this.activeSessions.get(sessionId);
+    if (!entry) {
+      throw new Error(`Session with ID '${sessionId}' not found.`);
+    }
+
+    const run = this.runDetached(entry.actor.getPersistedSnapshot(), events);
+    const rejectedIndex = run.steps.findIndex((step) => this.isRejected(step));
+
+    // Rollback: nothing is committed, the session keeps its prior snapshot
+    if (rejectedIndex !== -1) {
+      return {
+        applied: false,
+        cleanSnapshot: this.cleanSnapshot(entry.actor.getSnapshot(), sessionId),
+        results: events.map((event, index) => ({
+          event,
+          status: index < rejectedIndex ? 'rolled_back' : index === rejectedIndex ? 'rejected' : 'skipped',
+        })),
+      };
+    }
+
+    const steps = this.commitDetached(sessionId, entry, run);
+    return {
+      applied: true,
+      cleanSnapshot: this.cleanSnapshot(entry.actor.getSnapshot(), sessionId),
+      results: steps.map((step) => ({ event: step.event, status: 'applied', snapshot: step.snapshot })),
+    };
+  }
+
+  // ----------------------------------------------------
+  // Session Selection & Broadcast
+  // ----------------------------------------------------
+
+  /**
+   * Checks whether a session matches all criteria of a selector.
+   * A state is given as dot-separated path, e.g. 'NotfallModus' or 'ArbeitsModus.Entitaet'.
+   */
+  private matchesSelector(sessionId: string, entry: SessionEntry, selector: SessionSelector): boolean {
+    if (selector.sessionIds && !selector.sessionIds.includes(sessionId)) return false;
+    if (selector.idPrefix && !sessionId.startsWith(selector.idPrefix)) return false;
+    const tags = selector.tag === undefined ? [] : ([] as string[]).concat(selector.tag);
+    if (!tags.every((tag) => entry.metadata.tags.includes(tag))) return false;
+    if (selector.owner !== undefined && entry.metadata.owner !== selector.owner) return false;
+    if (selector.device !== undefined && entry.metadata.device !== selector.device) return false;
+    if (selector.location !== undefined && entry.metadata.location !== selector.location) return false;
+    const snapshot = entry.actor.getSnapshot() as RunningSnapshot;
+    if (selector.anzeigeKontext !== undefined && snapshot.context.anzeigeKontext !== selector.anzeigeKontext) return false;
+    if (selector.state) {
+      const path = selector.state.split('.');
+      const stateValue = path
+        .slice(0, -1)
+        .reduceRight<StateValue>((child, parent) => ({ [parent]: child }), path[path.length - 1]);
+      if (!matchesState(stateValue, snapshot.value)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Sends the same event to all sessions or to the sessions matching a selector,
+   * e.g. NOTFALL_EMPFANGEN to every display of a site.
+   * A failing session does not stop the broadcast.
+   * @param event The FrameEvent to send.
+   * @param selector Criteria the sessions have to match (all criteria combined, empty = all sessions).
+   * @returns The result for every matched (or explicitly requested but missing) session.
+   */
+  public broadcastEvent(event: FrameEvent, selector: SessionSelector = {}): BroadcastResult {
+    if (!this.isFrameEvent(event)) {
+      throw new Error('Invalid input: event is undefined or empty.');
+    }
+    assertValidFrameEvent(event, 'event.');
+
+    const results: BroadcastSessionResult[] = [];
+    for (const [sessionId, entry] of this.activeSessions.entries()) {
+      if (!this.matchesSelector(sessionId, entry, selector)) continue;
+
+      const actor = entry.actor;
+      const status = actor.getSnapshot().status;
+      if (status === 'done') {
+        results.push({ sessionId, status: 'final', currentState: (actor.getSnapshot() as RunningSnapshot).value });
+        continue;
+      }
+      if (status !== 'active') {
+        results.push({ sessionId, status: 'unreachable', error: `Session is in status '${status}'.` });
+        continue;
+      }
+
+      try {
+        const changed = this.applyEvent(sessionId, actor, event);
+        results.push({
+          sessionId,
+          status: changed ? 'delivered' : 'ignored',
+          currentState: (actor.getSnapshot() as RunningSnapshot).value,
+        });
+      } catch (e) {
+        results.push({ sessionId, status: 'unreachable', error: (e as Error).message });
+      }
+    }
+
+    // Explicitly requested sessions that do not exist
+    for (const sessionId of selector.sessionIds ?? []) {
+      if (!this.activeSessions.has(sessionId)) {
+        results.push({ sessionId, status: 'not_found' });
+      }
+    }
+
+    const summary = { delivered: 0, ignored: 0, final: 0, unreachable: 0, not_found: 0 };
+    results.forEach((result) => summary[result.status]++);
+    return { event, count: results.length, summary, results };
   }
 
   // ----------------------------------------------------
@@ -132,15 +1289,23 @@ class SessionService {
    * @returns The new snapshot (state/context) of the machine.
    */
   public sendEvent(sessionId: string, event: FrameEvent): CleanSnapshot {
+    return this.processEvent(sessionId, event).cleanSnapshot;
+  }
+
+  /**
+   * Sends an event to a running State Machine and reports what the event did.
+   * @param sessionId The ID of the session that should receive the event.
+   * @param event The FrameEvent to send to the machine.
+   * @returns The new snapshot and the outcome of the event (e.g. transitioned or ignored by a guard).
+   */
+  public processEvent(sessionId: string, event: FrameEvent): EventResult {
     if (!sessionId 
-        || !event 
-        || typeof event.type === 'undefined' 
         || sessionId.trim() === ''
-        || event.type.toString().trim() === ''
-        || !Object.values(FrameEventTypes).includes(event.type as any)
+        || !this.isFrameEvent(event)
       ) {
       throw new Error('Invalid input: sessionId or event is undefined or empty.');
     }
+    assertValidFrameEvent(event);
     if (this.getSession(sessionId) === undefined) {
       throw new Error(`Session with ID '${sessionId}' not found.`);
     }
@@ -152,11 +1317,50 @@ class SessionService {
       throw new Error(`Session with ID '${sessionId}' not found.`);
     }
 
-    // 1. Send the event to the machine
-    actor.send(event);
+    // 1. Send the event to the machine, renew the lease, record it and persist the result
+    const snapshotBefore = actor.getSnapshot();
+    this.applyEvent(sessionId, actor, event);
 
-    // 2. Return the *new* resulting state
-    return this.cleanSnapshot(actor.getSnapshot(), sessionId);
+    // 2. Return the *new* resulting state and what the event did
+    const outcome = this.describeOutcome(event, snapshotBefore, actor.getSnapshot());
+    if (event.type !== FrameEventTypes.SUCHE_FRAME || outcome.status === 'not_handled') {
+      return { cleanSnapshot: this.cleanSnapshot(actor.getSnapshot(), sessionId), outcome };
+    }
+
+    // Repeats the search of the machine on the context before the event to report whether and where the frame was found
+    const search = findFrame((snapshotBefore as RunningSnapshot).context, event);
+    if (!search.found) {
+      outcome.reason = `SUCHE_FRAME found no frame matching '${event.frameName}' (match: ${event.match ?? 'EXACT'}, scope: ${event.scope ?? 'ACTIVE'}).`;
+    }
+    return { cleanSnapshot: this.cleanSnapshot(actor.getSnapshot(), sessionId), outcome, search };
+  }
+
+  /**
+   * Sends an event to the Actor of a session, renews the lease,
+   * records the event in the history and persists the result.
+   * @returns Whether the event changed the state or the context.
+   */
+  private applyEvent(sessionId: string, actor: FrameActor, event: FrameEvent): boolean {
+    const snapshotBefore = actor.getSnapshot();
+    const persistedBefore = actor.getPersistedSnapshot();
+    const entry = this.activeSessions.get(sessionId);
+    if (entry) entry.currentEvent = event;
+    try {
+      actor.send(event);
+    } finally {
+      if (entry) entry.currentEvent = undefined;
+    }
+    if (!entry) {
+      return this.hasChanged(snapshotBefore, actor.getSnapshot());
+    }
+
+    entry.lastActivityAt = Date.now();
+    const historyEntry = this.recordHistory(entry, event, snapshotBefore, actor.getSnapshot());
+    if (historyEntry.transitioned) {
+      this.pushUndoStep(entry, { seq: historyEntry.seq, snapshot: persistedBefore });
+    }
+    this.persistSession(sessionId, entry);
+    return historyEntry.transitioned;
   }
 
   /**
@@ -185,15 +1389,110 @@ class SessionService {
 
   /**
    * Retrieves all active sessions and their snapshots.
-   * @returns A list of all active sessions with their clean snapshots.
+   * @param selector Optional criteria the sessions have to match (e.g. tag, state, anzeigeKontext, owner).
+   * @returns A list of all (matching) active sessions with their clean snapshots.
    */
-  public getAllSessions(): CleanSnapshot[] {
+  public getAllSessions(selector: SessionSelector = {}): CleanSnapshot[] {
     const sessions: CleanSnapshot[] = [];
-    for (const [sessionId, actor] of this.activeSessions.entries()) {
-      sessions.push(this.cleanSnapshot(actor.getSnapshot(), sessionId));
+    for (const [sessionId, entry] of this.activeSessions.entries()) {
+      if (!this.matchesSelector(sessionId, entry, selector)) continue;
+      sessions.push(this.cleanSnapshot(entry.actor.getSnapshot(), sessionId));
     }
     return sessions;
   }
+
+  /**
+   * Retrieves one page of the active sessions, sorted and projected to the requested fields.
+   * Unlike getAllSessions() only the sessions of the page are turned into (partial) snapshots,
+   * so clients can fetch e.g. only `sessionId`, `currentState` and `currentFrame`
+   * without serializing the frame lists of every session.
+   * @param selector Optional criteria the sessions have to match.
+   * @param query Sorting (`sortBy`, `order`), pagination (`limit` and `offset` or `cursor`) and projection (`fields`).
+   * @returns The page of sessions, the total number of matching sessions and the cursor of the next page.
+   */
+  public listSessions(selector: SessionSelector = {}, query: SessionListQuery = {}): SessionPage {
+    const sortBy = query.sortBy ?? 'createdAt';
+    const order = query.order ?? 'asc';
+    if (!SessionSortKeys.includes(sortBy) || (order !== 'asc' && order !== 'desc')) {
+      throw new Error('Invalid input: sortBy or order is not supported.');
+    }
+    const invalidField = query.fields?.find((field) => !SessionListFields.includes(field));
+    if (invalidField !== undefined) {
+      throw new Error(`Invalid input: field '${invalidField}' is not supported.`);
+    }
+    if (query.offset !== undefined && query.cursor !== undefined) {
+      throw new Error('Invalid input: provide either offset or cursor, not both.');
+    }
+
+    // The position of a session in the listing: the sort key, then the session ID as tie-breaker
+    type Position = { key: string | number; sessionId: string };
+    const positionOf = (sessionId: string, entry: SessionEntry): Position => ({
+      key: sortBy === 'sessionId' ? sessionId : entry[sortBy],
+      sessionId,
+    });
+    const compareValues = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0);
+    const direction = order === 'asc' ? 1 : -1;
+    const compare = (a: Position, b: Position) =>
+      direction * (compareValues(a.key, b.key) || compareValues(a.sessionId, b.sessionId));
+
+    const matching: { entry: SessionEntry; position: Position }[] = [];
+    for (const [sessionId, entry] of this.activeSessions.entries()) {
+      if (!this.matchesSelector(sessionId, entry, selector)) continue;
+      matching.push({ entry, position: positionOf(sessionId, entry) });
+    }
+    matching.sort((a, b) => compare(a.position, b.position));
+
+    let start = query.offset ?? 0;
+    if (query.cursor !== undefined) {
+      const after = this.decodeCursor(query.cursor, sortBy, order);
+      // The first session behind the cursor, even if the session of the cursor was removed meanwhile
+      start = matching.findIndex((item) => compare(item.position, after) > 0);
+      if (start === -1) start = matching.length;
+    }
+    const end = query.limit === undefined ? matching.length : start + query.limit;
+    const page = matching.slice(start, end);
+
+    const sessions = page.map(({ entry, position }) => {
+      const cleanSnapshot = this.cleanSnapshot(entry.actor.getSnapshot(), position.sessionId);
+      if (!query.fields) return cleanSnapshot;
+      const projection: Partial<CleanSnapshot> = {};
+      for (const field of query.fields) {
+        (projection as Record<string, unknown>)[field] = cleanSnapshot[field];
+      }
+      return projection;
+    });
+    const last = page[page.length - 1];
+
+    return {
+      total: matching.length,
+      count: sessions.length,
+      sessions,
+      nextCursor: end < matching.length && last
+        ? Buffer.from(JSON.stringify({ sortBy, order, ...last.position })).toString('base64url')
+        : null,
+    };
+  }
+
+  // Decodes the cursor of listSessions(), which is only valid for the same sort order
+  private decodeCursor(cursor: string, sortBy: SessionSortKey, order: 'asc' | 'desc'): { key: string | number; sessionId: string } {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid input: cursor is malformed.');
+    }
+    if (typeof decoded !== 'object' || decoded === null) {
+      throw new Error('Invalid input: cursor is malformed.');
+    }
+    const { sortBy: cursorSortBy, order: cursorOrder, key, sessionId } = decoded as Record<string, unknown>;
+    if (typeof sessionId !== 'string' || (typeof key !== 'string' && typeof key !== 'number')) {
+      throw new Error('Invalid input: cursor is malformed.');
+    }
+    if (cursorSortBy !== sortBy || cursorOrder !== order) {
+      throw new Error('Invalid input: cursor does not match the requested sort order.');
+    }
+    return { key, sessionId };
+  }
 }
 
 // Exports the ONE Singleton instance for the entire application
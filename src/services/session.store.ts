@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import type { SessionRecord, EmergencyRecord } from './session.types';
+
+// --------------------------------------------
+// Session Store
+// Persists sessions so that they survive restarts of the service
+// --------------------------------------------
+
+/**
+ * Defines the interface of a pluggable session store.
+ * The SessionService saves a record after every change of a session
+ * and reads all records once at startup to rehydrate the Actors.
+ * The emergency records of all sessions are stored separately, they outlive the sessions.
+ * An emergency can be recorded more than once (e.g. confirmed again after a preemption),
+ * so a record is identified by its session, the emergency ID and its sequence number.
+ */
+export interface SessionStore {
+  // Saves (creates or replaces) the record of a session.
+  save(record: SessionRecord): void;
+  // Removes the record of a session.
+  remove(sessionId: string): void;
+  // Loads all stored records.
+  loadAll(): SessionRecord[];
+  // Saves (creates or replaces) a single emergency record.
+  saveEmergency(record: EmergencyRecord): void;
+  // Loads all stored emergency records (oldest first).
+  loadEmergencies(): EmergencyRecord[];
+}
+
+// Identifies an emergency record in a store
+const emergencyKey = (record: EmergencyRecord): string => `${record.sessionId}/${record.id}/${record.seq}`;
+
+/**
+ * Keeps all records in memory only.
+ * Useful for tests and as default when no durable store is configured.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private records: Map<string, SessionRecord> = new Map();
+  private emergencies: Map<string, EmergencyRecord> = new Map();
+
+  public save(record: SessionRecord): void {
+    this.records.set(record.sessionId, record);
+  }
+
+  public remove(sessionId: string): void {
+    this.records.delete(sessionId);
+  }
+
+  public loadAll(): SessionRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  public saveEmergency(record: EmergencyRecord): void {
+    this.emergencies.set(emergencyKey(record), record);
+  }
+
+  public loadEmergencies(): EmergencyRecord[] {
+    return Array.from(this.emergencies.values());
+  }
+}
+
+// A single line of the JSON-lines file
+type StoreLine =
+  | { op: 'save'; record: SessionRecord }
+  | { op: 'remove'; sessionId: string }
+  | { op: 'emergency'; record: EmergencyRecord };
+
+/**
+ * Stores the records in a local JSON-lines file.
+ * Every change is appended as a single line ('save', 'remove' or 'emergency'), so a crash
+ * can lose at most the line that was being written. The file is compacted
+ * (rewritten with only the latest record per session and per emergency record)
+ * when it is loaded and after `compactAfter` appended lines.
+ */
+export class FileSessionStore implements SessionStore {
+  private records: Map<string, SessionRecord> = new Map();
+  private emergencies: Map<string, EmergencyRecord> = new Map();
+  private appendedLines = 0;
+  // The file is read once, afterwards the maps above reflect every change made through this store
+  private loaded = false;
+
+  constructor(private readonly filePath: string, private readonly compactAfter = 1000) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  public save(record: SessionRecord): void {
+    this.load();
+    this.records.set(record.sessionId, record);
+    this.append({ op: 'save', record });
+  }
+
+  public remove(sessionId: string): void {
+    this.load();
+    if (!this.records.delete(sessionId)) return;
+    this.append({ op: 'remove', sessionId });
+  }
+
+  public saveEmergency(record: EmergencyRecord): void {
+    this.load();
+    this.emergencies.set(emergencyKey(record), record);
+    this.append({ op: 'emergency', record });
+  }
+
+  public loadAll(): SessionRecord[] {
+    this.load();
+    return Array.from(this.records.values());
+  }
+
+  public loadEmergencies(): EmergencyRecord[] {
+    this.load();
+    return Array.from(this.emergencies.values());
+  }
+
+  // Reads the file into memory and compacts it, only on the first call.
+  // Changes made before would otherwise be compacted without the records of the file.
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (fs.existsSync(this.filePath)) {
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+      lines.forEach((line, index) => {
+        if (line.trim() === '') return;
+        try {
+          const entry = JSON.parse(line) as StoreLine;
+          if (entry.op === 'save') {
+            this.records.set(entry.record.sessionId, entry.record);
+          } else if (entry.op === 'remove') {
+            this.records.delete(entry.sessionId);
+          } else if (entry.op === 'emergency') {
+            this.emergencies.set(emergencyKey(entry.record), entry.record);
+          }
+        } catch {
+          // A partially written last line (e.g. after a crash) is skipped
+          console.warn(`Skipping invalid line ${index + 1} in session store '${this.filePath}'.`);
+        }
+      });
+    }
+    this.compact();
+  }
+
+  /**
+   * Rewrites the file with only the latest record of every session and of every emergency record.
+   * The file is replaced atomically via rename.
+   */
+  public compact(): void {
+    const lines: StoreLine[] = [
+      ...Array.from(this.records.values()).map((record): StoreLine => ({ op: 'save', record })),
+      ...Array.from(this.emergencies.values()).map((record): StoreLine => ({ op: 'emergency', record })),
+    ];
+    const content = lines.map((line) => JSON.stringify(line) + '\n').join('');
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, content);
+    fs.renameSync(tmpPath, this.filePath);
+    this.appendedLines = 0;
+  }
+
+  private append(line: StoreLine): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+    this.appendedLines++;
+    if (this.appendedLines >= this.compactAfter) {
+      this.compact();
+    }
+  }
+}
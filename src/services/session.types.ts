@@ -0,0 +1,298 @@
+import type { Snapshot } from 'xstate';
+import type { AnzeigeKontext, CleanSnapshot, Frame, FrameEvent, Notfall, SessionMetadata, SuchErgebnis } from '../core/machine.types';
+
+// ----------------------------------------------------
+// Types and interfaces for the Session Service
+// Notifications published to live clients, records written
+// to the session store and the event history are defined here.
+// ----------------------------------------------------
+
+// Defines all notification types as constants for better maintainability.
+export const SessionNotificationTypes = {
+  SESSION_CREATED: 'SESSION_CREATED',
+  SESSION_SNAPSHOT: 'SESSION_SNAPSHOT',
+  SESSION_DELETED: 'SESSION_DELETED',
+  SESSION_ESCALATED: 'SESSION_ESCALATED',
+} as const;
+
+/**
+ * Defines all notifications the SessionService publishes
+ * whenever the set of sessions or the state of a session changes.
+ */
+export type SessionNotification =
+  | { type: typeof SessionNotificationTypes.SESSION_CREATED; sessionId: string; snapshot: CleanSnapshot }
+  | { type: typeof SessionNotificationTypes.SESSION_SNAPSHOT; sessionId: string; snapshot: CleanSnapshot }
+  | { type: typeof SessionNotificationTypes.SESSION_DELETED; sessionId: string }
+  // The displayed emergency was not confirmed within its timeout (policy ESCALATE)
+  | { type: typeof SessionNotificationTypes.SESSION_ESCALATED; sessionId: string; notfall: Notfall; snapshot: CleanSnapshot };
+
+// Callback registered via sessionService.subscribe()
+export type SessionListener = (notification: SessionNotification) => void;
+
+/**
+ * Defines the record a SessionStore persists for every session.
+ * `snapshot` is the XState persisted snapshot (actor.getPersistedSnapshot()),
+ * which can be passed to createActor(frameMachine, { snapshot }) again.
+ */
+export interface SessionRecord {
+  sessionId: string;
+  snapshot: Snapshot<unknown>;
+  // Lease of the session (timestamps in milliseconds since epoch)
+  createdAt?: number;
+  lastActivityAt?: number;
+  idleTtlMs?: number;
+  metadata?: SessionMetadata;
+}
+
+/**
+ * Defines everything that is recorded in the history of a session:
+ * the events sent to the machine and the undo / redo commands of the service.
+ */
+export type SessionHistoryEvent =
+  | FrameEvent
+  | { type: 'UNDO'; steps: number }
+  | { type: 'REDO'; steps: number };
+
+/**
+ * Defines a single entry of the event history (audit log) of a session.
+ */
+export interface SessionHistoryEntry {
+  // Sequence number, increasing per session
+  seq: number;
+  // Time the event was processed (ISO 8601)
+  timestamp: string;
+  // The event as it was sent to the machine (or the undo / redo command)
+  event: SessionHistoryEvent;
+  // State value and frame ID before and after processing the event
+  stateBefore: unknown;
+  stateAfter: unknown;
+  frameBefore: string;
+  frameAfter: string;
+  // Whether the event changed the state or the context (false if it was ignored by the machine)
+  transitioned: boolean;
+}
+
+// Filter for sessionService.getHistory()
+export interface SessionHistoryQuery {
+  // Only entries processed after this time (milliseconds since epoch)
+  since?: number;
+  // Only the most recent entries
+  limit?: number;
+}
+
+/**
+ * Outcome of an emergency received by a session:
+ * - PENDING: not answered yet (waiting for its confirmation or in the queue)
+ * - ACCEPTED / REJECTED: answered by a user (USER_BESTAETIGT_NOTFALL)
+ * - AUTO_ACCEPTED: accepted after its confirmation timeout (policy AUTO_ACCEPT)
+ * - REPLACED: replaced by an emergency with the same ID before it was answered
+ * - DISCARDED: dropped before it was answered, e.g. by ZURUCKSETZEN or an undo
+ */
+export const EmergencyOutcomes = ['PENDING', 'ACCEPTED', 'REJECTED', 'AUTO_ACCEPTED', 'REPLACED', 'DISCARDED'] as const;
+
+export type EmergencyOutcome = (typeof EmergencyOutcomes)[number];
+
+/**
+ * Defines the record of a single emergency received by a session:
+ * which list was shown, when the confirmation was requested and answered, by whom and with which outcome.
+ */
+export interface EmergencyRecord {
+  // Sequence number of the record in the emergency log of all sessions
+  seq: number;
+  sessionId: string;
+  // ID and priority of the emergency
+  id: string;
+  priority: number;
+  // The emergency list shown to the user
+  list: Frame[];
+  // Times the emergency was received, its confirmation was requested and it was answered (ISO 8601)
+  receivedAt: string;
+  displayedAt: string | null;
+  resolvedAt: string | null;
+  // Time from the confirmation request to the answer in milliseconds
+  confirmationMs: number | null;
+  outcome: EmergencyOutcome;
+  // Identity and comment of the user who answered
+  user: string | null;
+  comment: string | null;
+  // Number of reminders (policy REPROMPT) and whether the confirmation was escalated (policy ESCALATE)
+  reminders: number;
+  escalated: boolean;
+}
+
+// Filter for sessionService.getEmergencyReport()
+export interface EmergencyReportQuery {
+  // Only emergencies received after this time (milliseconds since epoch)
+  since?: number;
+  outcome?: EmergencyOutcome;
+}
+
+// Result of sessionService.getEmergencyReport()
+export interface EmergencyReport {
+  count: number;
+  summary: Record<EmergencyOutcome, number>;
+  // Average confirmation time of the answered emergencies (`null` if none was answered)
+  averageConfirmationMs: number | null;
+  // Number of emergencies accepted or rejected without the identity of the user
+  anonymousAnswers: number;
+  // The emergencies of all sessions (oldest first)
+  emergencies: EmergencyRecord[];
+}
+
+// Result of a single event applied by a replay or batch
+export interface EventStepResult {
+  event: FrameEvent;
+  // Whether the event caused a transition
+  transitioned: boolean;
+  // The snapshot after the event
+  snapshot: CleanSnapshot;
+}
+
+// Result of sessionService.replaySession()
+export interface ReplayResult {
+  cleanSnapshot: CleanSnapshot;
+  steps: EventStepResult[];
+}
+
+/**
+ * Result of a single event of an atomic batch:
+ * - applied: the event was applied (snapshot after the event is included)
+ * - rejected: the event was not handled, blocked by a guard or SUCHE_FRAME found no frame, the whole batch was rolled back
+ * - rolled_back: the event would have been applied, but the batch was rolled back
+ * - skipped: the event was not evaluated because an earlier event was rejected
+ */
+export interface BatchEventResult {
+  event: FrameEvent;
+  status: 'applied' | 'rejected' | 'rolled_back' | 'skipped';
+  snapshot?: CleanSnapshot;
+}
+
+// Result of sessionService.sendEvents()
+export interface BatchResult {
+  // Whether all events were applied (otherwise nothing was applied)
+  applied: boolean;
+  cleanSnapshot: CleanSnapshot;
+  results: BatchEventResult[];
+}
+
+/**
+ * Selects sessions, e.g. for broadcasts and the session listing.
+ * All given criteria must match, an empty selector matches all sessions.
+ */
+export interface SessionSelector {
+  sessionIds?: string[];
+  idPrefix?: string;
+  // The session must have every given tag
+  tag?: string | string[];
+  // Dot-separated state path, e.g. 'NotfallModus' or 'ArbeitsModus.Entitaet'
+  state?: string;
+  anzeigeKontext?: AnzeigeKontext;
+  // Metadata fields (exact match)
+  owner?: string;
+  device?: string;
+  location?: string;
+}
+
+/**
+ * Result of a broadcast for a single session:
+ * - delivered: the event changed the state or the context
+ * - ignored: the event was not handled in the current state
+ * - final: the session is in its final state and was not reachable for events
+ * - unreachable: the session could not process the event
+ * - not_found: the session was requested by ID but does not exist
+ */
+export interface BroadcastSessionResult {
+  sessionId: string;
+  status: 'delivered' | 'ignored' | 'final' | 'unreachable' | 'not_found';
+  currentState?: unknown;
+  error?: string;
+}
+
+// Result of sessionService.broadcastEvent()
+export interface BroadcastResult {
+  event: FrameEvent;
+  count: number;
+  summary: Record<BroadcastSessionResult['status'], number>;
+  results: BroadcastSessionResult[];
+}
+
+// Fields of the clean snapshot that can be selected in the session listing
+export const SessionListFields = [
+  'sessionId',
+  'currentState',
+  'currentFrame',
+  'frame',
+  'context',
+  'lastActivityAt',
+  'expiresAt',
+  'confirmationRemainingMs',
+  'metadata',
+] as const satisfies readonly (keyof CleanSnapshot)[];
+
+export type SessionListField = (typeof SessionListFields)[number];
+
+// Sort keys of the session listing
+export const SessionSortKeys = ['sessionId', 'createdAt', 'lastActivityAt'] as const;
+
+export type SessionSortKey = (typeof SessionSortKeys)[number];
+
+/**
+ * Pagination, sorting and projection for sessionService.listSessions().
+ * Either `offset` or `cursor` (the `nextCursor` of the previous page) may be given.
+ */
+export interface SessionListQuery {
+  // Default: 'createdAt'
+  sortBy?: SessionSortKey;
+  // Default: 'asc'
+  order?: 'asc' | 'desc';
+  // Maximum number of sessions of the page (default: all)
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  // Only these fields of the clean snapshot (default: all)
+  fields?: SessionListField[];
+}
+
+// Result of sessionService.listSessions()
+export interface SessionPage {
+  // Number of sessions matching the selector (all pages)
+  total: number;
+  // Number of sessions on this page
+  count: number;
+  sessions: Partial<CleanSnapshot>[];
+  // Cursor of the next page, `null` on the last page
+  nextCursor: string | null;
+}
+
+/**
+ * Outcome of a single event sent to a session:
+ * - transitioned: the state changed
+ * - context_changed: the state stayed the same, but the context changed (e.g. the next frame is shown)
+ * - unchanged: the event was handled, but changed neither state nor context (e.g. SUCHE_FRAME for an unknown frame)
+ * - ignored_by_guard: the event is handled in the current state, but no guard allowed it (e.g. NAECHSTER_FRAME at the end of the list)
+ * - not_handled: the event is not handled in the current state
+ */
+export interface EventOutcome {
+  status: 'transitioned' | 'context_changed' | 'unchanged' | 'ignored_by_guard' | 'not_handled';
+  // Human-readable explanation, e.g. which guard prevented the event
+  reason: string;
+}
+
+// Result of sessionService.processEvent()
+export interface EventResult {
+  cleanSnapshot: CleanSnapshot;
+  outcome: EventOutcome;
+  // Whether and where SUCHE_FRAME found the frame (only for SUCHE_FRAME events that were handled)
+  search?: SuchErgebnis;
+}
+
+/**
+ * Describes whether an event type would be handled in the current snapshot of a session.
+ */
+export interface AvailableEvent {
+  type: FrameEvent['type'];
+  available: boolean;
+  // Whether the guards depend on the payload of the event (e.g. the context of LADE_NEUE_LISTE)
+  // and could therefore not be evaluated; `available` then only states that the event is handled in the current state.
+  payloadDependent: boolean;
+}
@@ -0,0 +1,121 @@
+// -------------------------------------------------
+// API documentation page
+// Renders the OpenAPI document of the service
+// (endpoints, parameters, responses and schemas).
+// http://localhost:3000/docs
+// -------------------------------------------------
+
+const OPENAPI_URL = '/api/openapi.json';
+
+// DOM elements
+const titleEl = document.getElementById('title');
+const descriptionEl = document.getElementById('description');
+const pathsRoot = document.getElementById('pathsRoot');
+const schemasRoot = document.getElementById('schemasRoot');
+
+/**
+ * Creates an element with class name and text content
+ * @param {string} tag
+ * @param {string} [className]
+ * @param {string} [text]
+ * @returns {HTMLElement}
+ */
+function el(tag, className, text) {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+}
+
+/**
+ * Returns the name of a referenced schema or the JSON of an inline schema
+ * @param {object} schema
+ * @returns {string}
+ */
+function describeSchema(schema) {
+  if (!schema) return '-';
+  if (schema.$ref) return schema.$ref.split('/').pop();
+  if (schema.type === 'array' && schema.items) return `${describeSchema(schema.items)}[]`;
+  return JSON.stringify(schema);
+}
+
+/**
+ * Renders a single operation (method + path)
+ * @param {string} method
+ * @param {string} path
+ * @param {object} operation
+ * @returns {HTMLElement}
+ */
+function renderOperation(method, path, operation) {
+  const details = el('details', 'operation');
+  const summary = el('summary');
+  summary.append(el('span', `method method-${method}`, method.toUpperCase()), el('code', 'path', path), el('span', 'summary', operation.summary || ''));
+  details.append(summary);
+
+  if (operation.description) details.append(el('p', 'hint', operation.description));
+
+  if (operation.parameters?.length) {
+    details.append(el('h4', '', 'Parameters'));
+    const list = el('ul');
+    operation.parameters.forEach((p) => {
+      list.append(el('li', '', `${p.name} (${p.in}${p.required ? ', required' : ''}): ${describeSchema(p.schema)} — ${p.description || ''}`));
+    });
+    details.append(list);
+  }
+
+  const body = operation.requestBody?.content?.['application/json']?.schema;
+  if (body) {
+    details.append(el('h4', '', 'Request Body'));
+    details.append(el('pre', '', describeSchema(body)));
+  }
+
+  details.append(el('h4', '', 'Responses'));
+  const responses = el('ul');
+  Object.entries(operation.responses || {}).forEach(([status, response]) => {
+    const content = response.content && Object.values(response.content)[0];
+    responses.append(el('li', '', `${status}: ${response.description}${content ? ` → ${describeSchema(content.schema)}` : ''}`));
+  });
+  details.append(responses);
+  return details;
+}
+
+/**
+ * Renders a schema of the components section
+ * @param {string} name
+ * @param {object} schema
+ * @returns {HTMLElement}
+ */
+function renderSchema(name, schema) {
+  const details = el('details', 'schema');
+  details.id = `schema-${name}`;
+  details.append(el('summary', '', name));
+  details.append(el('pre', '', JSON.stringify(schema, null, 2)));
+  return details;
+}
+
+/**
+ * Fetches the OpenAPI document and renders it
+ */
+async function loadDocs() {
+  try {
+    const res = await fetch(OPENAPI_URL);
+    const doc = await res.json();
+
+    titleEl.textContent = `${doc.info.title} ${doc.info.version}`;
+    descriptionEl.textContent = doc.info.description || '';
+
+    Object.entries(doc.paths).forEach(([path, operations]) => {
+      Object.entries(operations).forEach(([method, operation]) => {
+        pathsRoot.append(renderOperation(method, path, operation));
+      });
+    });
+    Object.entries(doc.components?.schemas || {}).forEach(([name, schema]) => {
+      schemasRoot.append(renderSchema(name, schema));
+    });
+  } catch (err) {
+    console.error('Failed to load OpenAPI document', err);
+    pathsRoot.append(el('p', 'error', 'The OpenAPI document could not be loaded.'));
+  }
+}
+
+loadDocs();
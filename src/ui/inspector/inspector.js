@@ -6,6 +6,8 @@
 // -------------------------------------------------
 
 const API_BASE = '/api';
+// Path of the WebSocket endpoint, served by the server from WS_PATH (see config.js)
+const WS_PATH = window.INSPECTOR_CONFIG?.wsPath ?? `${API_BASE}/ws`;
 
 // DOM elements
 const cardsRoot = document.getElementById('cardsRoot');
@@ -17,6 +19,7 @@ const pollInput = document.getElementById('pollInterval');
 const togglePollBtn = document.getElementById('togglePollBtn');
 
 let pollTimer = null;
+let liveSocket = null;
 let known = new Map(); // sessionId -> DOM element
 
 /**
@@ -70,7 +73,11 @@ function createOrUpdateCard(snap) {
     known.set(id, el);
   }
   el.querySelector('.state').textContent = pretty(snap.currentState);
-  el.querySelector('.frame').textContent = snap.currentFrame ?? '';
+  // Show the title of the frame as well if it differs from its ID
+  const frame = snap.frame;
+  el.querySelector('.frame').textContent = frame && frame.title !== frame.id
+    ? `${frame.title} (${frame.id})`
+    : snap.currentFrame ?? '';
   el.querySelector('.context').textContent = pretty(snap.context ?? {});
 }
 
@@ -82,11 +89,7 @@ function createOrUpdateCard(snap) {
 function removeMissingSessions(currentSessions) {
   const currentIds = new Set(currentSessions.map(s => s.sessionId));
   for (const id of Array.from(known.keys())) {
-    if (!currentIds.has(id)) {
-      const el = known.get(id);
-      if (el && el.parentNode) el.parentNode.removeChild(el);
-      known.delete(id);
-    }
+    if (!currentIds.has(id)) removeCard(id);
   }
 }
 
@@ -100,6 +103,46 @@ async function refreshNow() {
   removeMissingSessions(sessions);
 }
 
+/**
+ * Function to remove the card of a single session
+ * @param {string} id Session ID
+ * @return {void}
+ */
+function removeCard(id) {
+  const el = known.get(id);
+  if (el && el.parentNode) el.parentNode.removeChild(el);
+  known.delete(id);
+}
+
+/**
+ * Function to receive live session updates via WebSocket (WS_PATH, default /api/ws).
+ * Polling is stopped while the connection is open and restarted as fallback when it closes.
+ * @return {void}
+ */
+function connectLiveUpdates() {
+  const protocol = location.protocol === 'https:' ? 'wss' : 'ws';
+  liveSocket = new WebSocket(`${protocol}://${location.host}${WS_PATH}`);
+
+  liveSocket.addEventListener('open', () => {
+    stopPolling();
+    liveSocket.send(JSON.stringify({ action: 'subscribe', sessionIds: ['*'] }));
+  });
+  liveSocket.addEventListener('message', (msg) => {
+    let notification;
+    try { notification = JSON.parse(msg.data); } catch { return; }
+    if (notification.type === 'SESSION_CREATED' || notification.type === 'SESSION_SNAPSHOT') {
+      createOrUpdateCard(notification.snapshot);
+    } else if (notification.type === 'SESSION_DELETED') {
+      removeCard(notification.sessionId);
+    }
+  });
+  liveSocket.addEventListener('close', () => {
+    liveSocket = null;
+    startPolling(Number(pollInput.value) || 1000);
+    setTimeout(connectLiveUpdates, 5000); // retry later
+  });
+}
+
 /**
  * Function to create a new session
  * @returns {Promise<void>}
@@ -184,4 +227,5 @@ function stopPolling() {
 }
 
 startPolling(Number(pollInput.value) || 1000);
-refreshNow();
\ No newline at end of file
+refreshNow();
+connectLiveUpdates();
\ No newline at end of file
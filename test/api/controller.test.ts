@@ -29,6 +29,7 @@ describe('API Controller - Edge Cases and Error Paths', () => {
         sessionId, 
         currentState: 'Inaktiv', 
         currentFrame: 'LEERER_FRAME', 
+        frame: { id: 'LEERER_FRAME', title: 'LEERER_FRAME' },
         context: { 
             entitaetListe: [], 
             allgemeineListe: [], 
@@ -36,10 +37,23 @@ describe('API Controller - Edge Cases and Error Paths', () => {
             aktuellerEntitaetIndex: 0, 
             aktuellerAllgemeinIndex: 0,
             aktuellerNotfallIndex: 0,
+            weitereListen: {},
+            weitereIndizes: {},
+            navigationsModi: {},
+            navigationsRichtungen: {},
+            diashow: {},
+            aktiverNotfall: null,
+            notfallWarteschlange: [],
+            notfallZaehler: 0,
+            bestaetigung: null,
             anzeigeKontext: 'INAKTIV',
-            aktuellerFrame: 'LEERER_FRAME',
+            aktuellerFrame: { id: 'LEERER_FRAME', title: 'LEERER_FRAME' },
             herkunftsZustand: ''
-        } });
+        },
+        lastActivityAt: '2025-01-01T00:00:00.000Z',
+        expiresAt: null,
+        confirmationRemainingMs: null,
+        metadata: { tags: [] } });
 
     const response = await request(app).post(`/api/session/${sessionId}`);
     
@@ -104,7 +118,7 @@ describe('API Controller - Edge Cases and Error Paths', () => {
     const sessionId = 'non-existent-session';
     const event = { type: 'NAECHSTER_FRAME' };
     // Simulate that the service throws an error because the session does not exist
-    mockedSessionService.sendEvent.mockImplementation(() => {
+    mockedSessionService.processEvent.mockImplementation(() => {
       throw new Error(`Session ID '${sessionId}' not found.`);
     });
 
@@ -125,6 +139,7 @@ describe('API Controller - Final Coverage Tests', () => {
   it('should return a list of active sessions with a 200 status', async () => {
     const mockSessions: CleanSnapshot[] = [
       { sessionId: 'session1', currentState: 'Inaktiv', currentFrame: 'LEERER_FRAME' , 
+        frame: { id: 'LEERER_FRAME', title: 'LEERER_FRAME' },
         context: {
             entitaetListe: [],
             allgemeineListe: [],
@@ -132,11 +147,25 @@ describe('API Controller - Final Coverage Tests', () => {
             aktuellerEntitaetIndex: 0,
             aktuellerAllgemeinIndex: 0,
             aktuellerNotfallIndex: 0,
+            weitereListen: {},
+            weitereIndizes: {},
+            navigationsModi: {},
+            navigationsRichtungen: {},
+            diashow: {},
+            aktiverNotfall: null,
+            notfallWarteschlange: [],
+            notfallZaehler: 0,
+            bestaetigung: null,
             anzeigeKontext: 'INAKTIV',
-            aktuellerFrame: 'LEERER_FRAME',
+            aktuellerFrame: { id: 'LEERER_FRAME', title: 'LEERER_FRAME' },
             herkunftsZustand: 'INAKTIV'
-        }  },
+        },
+        lastActivityAt: '2025-01-01T00:00:00.000Z',
+        expiresAt: null,
+        confirmationRemainingMs: null,
+        metadata: { tags: [] } },
       { sessionId: 'session2', currentState: 'Inaktiv', currentFrame: 'LEERER_FRAME' , 
+        frame: { id: 'LEERER_FRAME', title: 'LEERER_FRAME' },
         context: {
             entitaetListe: [],
             allgemeineListe: [],
@@ -144,10 +173,23 @@ describe('API Controller - Final Coverage Tests', () => {
             aktuellerEntitaetIndex: 0,
             aktuellerAllgemeinIndex: 0,
             aktuellerNotfallIndex: 0,
+            weitereListen: {},
+            weitereIndizes: {},
+            navigationsModi: {},
+            navigationsRichtungen: {},
+            diashow: {},
+            aktiverNotfall: null,
+            notfallWarteschlange: [],
+            notfallZaehler: 0,
+            bestaetigung: null,
             anzeigeKontext: 'INAKTIV',
-            aktuellerFrame: 'LEERER_FRAME',
+            aktuellerFrame: { id: 'LEERER_FRAME', title: 'LEERER_FRAME' },
             herkunftsZustand: 'INAKTIV'
-        }  },
+        },
+        lastActivityAt: '2025-01-01T00:00:00.000Z',
+        expiresAt: null,
+        confirmationRemainingMs: null,
+        metadata: { tags: [] } },
     ];
     // Simulate that the service returns an array with two sessions
     mockedSessionService.getAllSessions.mockReturnValue(mockSessions);
@@ -0,0 +1,82 @@
+import express from 'express';
+import request from 'supertest';
+import { apiRoutes } from '../../src/api/routes';
+import { openApiDocument } from '../../src/api/openapi';
+import { FrameEventTypes } from '../../src/core/machine.types';
+
+// Temporary Express app for testing only
+const app = express();
+app.use(express.json());
+app.use('/api', apiRoutes);
+
+/* --------------------------------------------------------------
+  Tests for the OpenAPI document
+  Tests:
+  - every route of the router is described
+  - every FrameEvent variant is part of the FrameEvent union
+  - GET /api/openapi.json
+  -------------------------------------------------------------- */
+
+// Collects all routes registered on the router, e.g. 'post /api/session/{sessionId}/event'
+const routerRoutes = (): string[] =>
+  (apiRoutes.stack as any[])
+    .filter((layer) => layer.route)
+    .flatMap((layer) =>
+      Object.keys(layer.route.methods).map(
+        (method) => `${method} /api${layer.route.path.replace(/:(\w+)/g, '{$1}')}`
+      )
+    );
+
+describe('OpenAPI Document', () => {
+
+  // Test: fails as soon as a route is added to the router without being described.
+  it('should describe every route of the router', () => {
+    const paths = openApiDocument.paths as Record<string, Record<string, unknown>>;
+    const documented = Object.entries(paths).flatMap(([path, operations]) =>
+      Object.keys(operations).map((method) => `${method} ${path}`)
+    );
+
+    const undocumented = routerRoutes().filter((route) => !documented.includes(route));
+
+    expect(routerRoutes().length).toBeGreaterThan(0);
+    expect(undocumented).toEqual([]);
+  });
+
+  // Test: documented routes that no longer exist are detected as well.
+  it('should not describe routes that do not exist', () => {
+    const paths = openApiDocument.paths as Record<string, Record<string, unknown>>;
+    const routes = routerRoutes();
+    const stale = Object.entries(paths)
+      .flatMap(([path, operations]) => Object.keys(operations).map((method) => `${method} ${path}`))
+      .filter((route) => !routes.includes(route));
+
+    expect(stale).toEqual([]);
+  });
+
+  // Test: the FrameEvent union contains a variant for every event type.
+  it('should describe every FrameEvent variant in the discriminated union', () => {
+    const frameEvent = openApiDocument.components.schemas.FrameEvent;
+
+    expect(Object.keys(frameEvent.discriminator.mapping).sort()).toEqual(Object.values(FrameEventTypes).sort());
+    expect(frameEvent.oneOf).toHaveLength(Object.values(FrameEventTypes).length);
+  });
+
+  // Test: every referenced schema exists.
+  it('should only reference existing schemas', () => {
+    const references = JSON.stringify(openApiDocument).match(/#\/components\/schemas\/\w+/g) ?? [];
+    const missing = references
+      .map((reference) => reference.split('/').pop()!)
+      .filter((name) => !(name in openApiDocument.components.schemas));
+
+    expect(missing).toEqual([]);
+  });
+
+  // GET /api/openapi.json should serve the document
+  it('GET /api/openapi.json -> Should serve the document', async () => {
+    const res = await request(app).get('/api/openapi.json');
+
+    expect(res.status).toBe(200);
+    expect(res.body.openapi).toMatch(/^3\./);
+    expect(res.body.paths['/api/session/{sessionId}/event'].post).toBeDefined();
+  });
+});
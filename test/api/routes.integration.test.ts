@@ -102,4 +102,302 @@ describe('API Integration Tests', () => {
     expect(getStateRes.status).toBe(404);
     expect(getStateRes.body).toEqual({ error: `Session with ID '${SESSION_ID}' not found.` });
   });
-});
\ No newline at end of file
+
+  // POST /api/session/:id/lease should extend the lease of the session
+  it('POST /api/session/:id/lease -> Should extend the lease of a session', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+
+    const res = await request(app)
+      .post(`/api/session/${SESSION_ID}/lease`)
+      .send({ idleTtlMs: 60000 });
+
+    expect(res.status).toBe(200);
+    expect(Date.parse(res.body.expiresAt) - Date.parse(res.body.lastActivityAt)).toBe(60000);
+
+    const invalidRes = await request(app).post(`/api/session/${SESSION_ID}/lease`).send({ idleTtlMs: 'soon' });
+    expect(invalidRes.status).toBe(400);
+
+    const missingRes = await request(app).post('/api/session/missing-session/lease');
+    expect(missingRes.status).toBe(404);
+  });
+
+  // GET /api/session/:id/history should return the recorded events
+  it('GET /api/session/:id/history -> Should return the recorded events', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'LADE_NEUE_LISTE', list: ['A', 'B'], context: 'ENTITAET' });
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'NAECHSTER_FRAME' });
+
+    const res = await request(app).get(`/api/session/${SESSION_ID}/history?limit=1`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.count).toBe(1);
+    expect(res.body.history[0]).toMatchObject({ seq: 2, event: { type: 'NAECHSTER_FRAME' }, frameAfter: 'B', transitioned: true });
+
+    const invalidRes = await request(app).get(`/api/session/${SESSION_ID}/history?since=yesterday`);
+    expect(invalidRes.status).toBe(400);
+
+    const missingRes = await request(app).get('/api/session/missing-session/history');
+    expect(missingRes.status).toBe(404);
+  });
+
+  // GET /api/session/:id/emergencies and /api/session/emergencies should return the emergency records
+  it('GET /api/session/:id/emergencies + /api/session/emergencies -> Should return the emergency records', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'NOTFALL_EMPFANGEN', list: ['N1'], id: 'BRAND-7' });
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true, user: 'dispatcher-12' });
+
+    const res = await request(app).get(`/api/session/${SESSION_ID}/emergencies`);
+    expect(res.status).toBe(200);
+    expect(res.body.count).toBe(1);
+    expect(res.body.emergencies[0]).toMatchObject({ sessionId: SESSION_ID, id: 'BRAND-7', outcome: 'ACCEPTED', user: 'dispatcher-12' });
+
+    const reportRes = await request(app).get('/api/session/emergencies?outcome=ACCEPTED');
+    expect(reportRes.status).toBe(200);
+    expect(reportRes.body.summary.ACCEPTED).toBe(reportRes.body.count);
+    expect(reportRes.body.emergencies).toEqual(expect.arrayContaining([expect.objectContaining({ sessionId: SESSION_ID, id: 'BRAND-7' })]));
+
+    const invalidRes = await request(app).get('/api/session/emergencies?outcome=LOST');
+    expect(invalidRes.status).toBe(400);
+
+    const missingRes = await request(app).get('/api/session/missing-session/emergencies');
+    expect(missingRes.status).toBe(404);
+  });
+
+  // POST /api/session/:id/undo and /redo should restore earlier snapshots
+  it('POST /api/session/:id/undo + /redo -> Should restore earlier snapshots', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'LADE_NEUE_LISTE', list: ['A', 'B'], context: 'ENTITAET' });
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'LADE_NEUE_LISTE', list: ['X'], context: 'ENTITAET' });
+
+    const undoRes = await request(app).post(`/api/session/${SESSION_ID}/undo`).send({});
+    expect(undoRes.status).toBe(200);
+    expect(undoRes.body.currentFrame).toBe('A');
+
+    const redoRes = await request(app).post(`/api/session/${SESSION_ID}/redo`).send({ steps: 1 });
+    expect(redoRes.status).toBe(200);
+    expect(redoRes.body.currentFrame).toBe('X');
+
+    const tooManyRes = await request(app).post(`/api/session/${SESSION_ID}/undo`).send({ steps: 10 });
+    expect(tooManyRes.status).toBe(409);
+
+    const invalidRes = await request(app).post(`/api/session/${SESSION_ID}/undo`).send({ steps: 0 });
+    expect(invalidRes.status).toBe(400);
+
+    const missingRes = await request(app).post('/api/session/missing-session/redo');
+    expect(missingRes.status).toBe(404);
+  });
+
+  // POST /api/session/:id/replay should rebuild a session from an event log
+  it('POST /api/session/:id/replay -> Should rebuild a session from an event log', async () => {
+    const res = await request(app)
+      .post(`/api/session/${SESSION_ID}/replay`)
+      .send({ events: [
+        { type: 'LADE_NEUE_LISTE', list: ['A', 'B'], context: 'ALLGEMEIN' },
+        { type: 'NAECHSTER_FRAME' },
+      ] });
+
+    expect(res.status).toBe(201);
+    expect(res.body.cleanSnapshot.currentFrame).toBe('B');
+    expect(res.body.steps).toHaveLength(2);
+    expect(res.body.steps[0].snapshot.currentFrame).toBe('A');
+
+    const replacedRes = await request(app).post(`/api/session/${SESSION_ID}/replay`).send({ events: [] });
+    expect(replacedRes.status).toBe(200);
+    expect(replacedRes.body.cleanSnapshot.currentState).toBe('Inaktiv');
+
+    const invalidRes = await request(app).post(`/api/session/${SESSION_ID}/replay`).send({ events: [{ type: 'FOO' }] });
+    expect(invalidRes.status).toBe(400);
+  });
+
+  // POST /api/session/:id/events should apply a batch atomically
+  it('POST /api/session/:id/events -> Should apply a batch all-or-nothing', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+
+    const res = await request(app)
+      .post(`/api/session/${SESSION_ID}/events`)
+      .send([
+        { type: 'LADE_NEUE_LISTE', list: ['A', 'B', 'C'], context: 'ENTITAET' },
+        { type: 'SUCHE_FRAME', frameName: 'B' },
+      ]);
+    expect(res.status).toBe(200);
+    expect(res.body.applied).toBe(true);
+    expect(res.body.cleanSnapshot.currentFrame).toBe('B');
+
+    const rolledBackRes = await request(app)
+      .post(`/api/session/${SESSION_ID}/events`)
+      .send({ events: [{ type: 'NAECHSTER_FRAME' }, { type: 'NAECHSTER_FRAME' }] });
+    expect(rolledBackRes.status).toBe(409);
+    expect(rolledBackRes.body.applied).toBe(false);
+    expect(rolledBackRes.body.cleanSnapshot.currentFrame).toBe('B');
+
+    const invalidRes = await request(app).post(`/api/session/${SESSION_ID}/events`).send([]);
+    expect(invalidRes.status).toBe(400);
+  });
+
+  // POST /api/broadcast should send an event to the selected sessions
+  it('POST /api/broadcast -> Should send an emergency to the selected sessions', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`).send({ tags: ['site-1'] });
+
+    const res = await request(app)
+      .post('/api/broadcast')
+      .send({ event: { type: 'NOTFALL_EMPFANGEN', list: ['N1'] }, selector: { tag: 'site-1' } });
+
+    expect(res.status).toBe(200);
+    expect(res.body.results).toEqual([
+      { sessionId: SESSION_ID, status: 'delivered', currentState: { NotfallModus: 'Bestaetigen' } },
+    ]);
+
+    const invalidRes = await request(app).post('/api/broadcast').send({ event: { type: 'NOTFALL_EMPFANGEN' }, selector: { tag: 1 } });
+    expect(invalidRes.status).toBe(400);
+
+    // 'broadcast' is a valid session ID
+    const sessionRes = await request(app).post('/api/session/broadcast').send({});
+    expect(sessionRes.status).toBe(201);
+    expect(sessionRes.body.cleanSnapshot.sessionId).toBe('broadcast');
+    await request(app).delete('/api/session/broadcast');
+  });
+
+  // POST /api/broadcast should reject unknown and mistyped selector criteria before sending anything
+  it('POST /api/broadcast -> Should reject invalid selectors', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`).send({ tags: ['site-1'] });
+
+    const selectors = [
+      { tags: ['site-1'] },
+      { sessionIds: 'page-a' },
+      { sessionIds: [1] },
+      { tag: ['site-1', 2] },
+      { state: 'ArbeitsModus..Entitaet' },
+      { anzeigeKontext: 1 },
+      { owner: null },
+      { device: ['d-1'] },
+      { location: {} },
+      { idPrefix: 5 },
+      ['site-1'],
+    ];
+    for (const selector of selectors) {
+      const res = await request(app).post('/api/broadcast').send({ event: { type: 'NOTFALL_EMPFANGEN', list: ['N1'] }, selector });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toContain('selector');
+    }
+
+    const stateRes = await request(app).get(`/api/session/${SESSION_ID}/state`);
+    expect(stateRes.body.currentState).toBe('Inaktiv');
+  });
+
+  // GET /api/session/sessions should filter the sessions by metadata
+  it('GET /api/session/sessions -> Should filter sessions by metadata and state', async () => {
+    const created = await request(app)
+      .post(`/api/session/${SESSION_ID}`)
+      .send({ owner: 'team-a', device: 'tv', location: 'berlin', tags: ['lobby'] });
+    expect(created.body.cleanSnapshot.metadata).toEqual({ owner: 'team-a', device: 'tv', location: 'berlin', tags: ['lobby'] });
+
+    const res = await request(app).get('/api/session/sessions?tag=lobby&owner=team-a&state=Inaktiv&anzeigeKontext=INAKTIV');
+    expect(res.status).toBe(200);
+    expect(res.body.sessions.map((s: any) => s.sessionId)).toEqual([SESSION_ID]);
+
+    const noMatchRes = await request(app).get('/api/session/sessions?tag=lobby&location=hamburg');
+    expect(noMatchRes.body.count).toBe(0);
+
+    const invalidRes = await request(app).post(`/api/session/${SESSION_ID}`).send({ owner: 1 });
+    expect(invalidRes.status).toBe(400);
+  });
+
+  // GET /api/session/sessions should paginate, sort and project the sessions
+  it('GET /api/session/sessions -> Should paginate, sort and project the sessions', async () => {
+    await request(app).post('/api/session/page-b');
+    await request(app).post('/api/session/page-a');
+
+    const res = await request(app).get('/api/session/sessions?idPrefix=page-&sortBy=sessionId&limit=1&fields=sessionId,currentFrame,confirmationRemainingMs');
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(2);
+    expect(res.body.sessions).toEqual([{ sessionId: 'page-a', currentFrame: 'LEERER_FRAME', confirmationRemainingMs: null }]);
+
+    const nextRes = await request(app).get(`/api/session/sessions?idPrefix=page-&sortBy=sessionId&limit=1&cursor=${res.body.nextCursor}`);
+    expect(nextRes.body.sessions.map((s: any) => s.sessionId)).toEqual(['page-b']);
+    expect(nextRes.body.nextCursor).toBeNull();
+
+    const invalidFieldRes = await request(app).get('/api/session/sessions?fields=sessionId,entitaetListe');
+    expect(invalidFieldRes.status).toBe(400);
+    const invalidCursorRes = await request(app).get('/api/session/sessions?cursor=broken');
+    expect(invalidCursorRes.status).toBe(400);
+    const invalidLimitRes = await request(app).get('/api/session/sessions?limit=-1');
+    expect(invalidLimitRes.status).toBe(400);
+  });
+
+  // Invalid event payloads should be rejected with 422 and the list of invalid fields
+  it('POST /api/session/:id/event -> Should reject invalid payloads with 422', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+
+    const res = await request(app)
+      .post(`/api/session/${SESSION_ID}/event`)
+      .send({ type: 'LADE_NEUE_LISTE', list: 'E1', context: 'NOTFALL' });
+    expect(res.status).toBe(422);
+    expect(res.body.errors).toEqual([
+      { field: 'list', code: 'invalid_type', message: 'must be an array of frames' },
+      { field: 'context', code: 'invalid_value', message: 'must be one of: ENTITAET, ALLGEMEIN' },
+    ]);
+
+    const stateRes = await request(app).get(`/api/session/${SESSION_ID}/state`);
+    expect(stateRes.body.currentState).toBe('Inaktiv');
+
+    const batchRes = await request(app)
+      .post(`/api/session/${SESSION_ID}/events`)
+      .send([{ type: 'NOTFALL_EMPFANGEN', list: ['N1'] }, { type: 'USER_BESTAETIGT_NOTFALL', accepted: 'yes' }]);
+    expect(batchRes.status).toBe(422);
+    expect(batchRes.body.errors[0].field).toBe('events[1].accepted');
+  });
+
+  // The event response should contain the outcome, strict mode should reject ignored events
+  it('POST /api/session/:id/event -> Should report the outcome and reject ignored events in strict mode', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'LADE_NEUE_LISTE', list: ['E1'], context: 'ENTITAET' });
+
+    const res = await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'NAECHSTER_FRAME' });
+    expect(res.status).toBe(200);
+    expect(res.body.currentFrame).toBe('E1');
+    expect(res.body.outcome.status).toBe('ignored_by_guard');
+
+    const strictRes = await request(app).post(`/api/session/${SESSION_ID}/event?strict=true`).send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    expect(strictRes.status).toBe(409);
+    expect(strictRes.body.outcome.status).toBe('not_handled');
+    expect(strictRes.body.error).toContain('not handled in ArbeitsModus.Entitaet');
+
+    const acceptedRes = await request(app).post(`/api/session/${SESSION_ID}/event?strict=true`).send({ type: 'SCHLIESSEN' });
+    expect(acceptedRes.status).toBe(200);
+    expect(acceptedRes.body.outcome.status).toBe('transitioned');
+  });
+
+  // POST /api/session/:id/event should report the result of SUCHE_FRAME
+  it('POST /api/session/:id/event -> Should report whether and where SUCHE_FRAME found the frame', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'LADE_NEUE_LISTE', list: ['Info', 'Wetter', 'Info'], context: 'ALLGEMEIN' });
+
+    const res = await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'SUCHE_FRAME', frameName: 'info', match: 'IGNORE_CASE', next: true });
+    expect(res.status).toBe(200);
+    expect(res.body.search).toMatchObject({ found: true, kontext: 'ALLGEMEIN', index: 2 });
+
+    const strictRes = await request(app).post(`/api/session/${SESSION_ID}/event?strict=true`).send({ type: 'SUCHE_FRAME', frameName: 'Verkehr' });
+    expect(strictRes.status).toBe(409);
+    expect(strictRes.body.search).toEqual({ found: false });
+  });
+
+  // GET /api/session/:id/available-events should list the events handled in the current state
+  it('GET /api/session/:id/available-events -> Should list the available events', async () => {
+    await request(app).post(`/api/session/${SESSION_ID}`);
+    await request(app).post(`/api/session/${SESSION_ID}/event`).send({ type: 'LADE_NEUE_LISTE', list: ['E1', 'E2'], context: 'ENTITAET' });
+
+    const res = await request(app).get(`/api/session/${SESSION_ID}/available-events`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.currentState).toEqual({ ArbeitsModus: 'Entitaet' });
+    expect(res.body.availableEvents).toEqual([
+      'SCHLIESSEN', 'ZURUCKSETZEN', 'NAECHSTER_FRAME', 'SUCHE_FRAME', 'ERSTER_FRAME', 'LETZTER_FRAME',
+      'SPRINGE_ZU_INDEX', 'SPRINGE_UM_OFFSET', 'NOTFALL_EMPFANGEN', 'LADE_NEUE_LISTE',
+      'FRAMES_ANHAENGEN', 'FRAMES_EINFUEGEN', 'FRAME_ENTFERNEN', 'FRAME_VERSCHIEBEN', 'DIASHOW_STARTEN',
+    ]);
+    expect(res.body.events).toHaveLength(20);
+
+    const missingRes = await request(app).get('/api/session/missing-session/available-events');
+    expect(missingRes.status).toBe(404);
+  });
+});
@@ -0,0 +1,114 @@
+import express from 'express';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { apiRoutes } from '../../src/api/routes';
+import { sessionService } from '../../src/services/session.service';
+import { config } from '../../src/config';
+
+// Temporary Express app for testing only
+const app = express();
+app.use(express.json());
+app.use('/api', apiRoutes);
+
+/* --------------------------------------------------------------
+  Integration tests for the Server-Sent Events stream
+  Tests:
+  - GET /api/session/:id/stream
+  -------------------------------------------------------------- */
+
+describe('Server-Sent Events Stream', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    config.sseHeartbeatMs = 20;
+    server = app.listen(0, () => {
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    (sessionService as any).activeSessions.clear();
+  });
+
+  afterAll((done) => {
+    server.close(() => done());
+  });
+
+  // Opens a stream and collects the parsed SSE messages
+  const openStream = async (sessionId: string) => {
+    const events: { event: string; data: any }[] = [];
+    let buffer = '';
+    const response = await new Promise<http.IncomingMessage>((resolve) =>
+      http.get(`${baseUrl}/api/session/${sessionId}/stream`, resolve)
+    );
+    const ended = new Promise<void>((resolve) => response.on('end', resolve));
+    response.setEncoding('utf8');
+    response.on('data', (chunk: string) => {
+      buffer += chunk;
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = /^event: (.*)$/m.exec(block)?.[1] ?? 'message';
+        const data = /^data: (.*)$/m.exec(block)?.[1];
+        events.push({ event, data: data ? JSON.parse(data) : undefined });
+      }
+    });
+    return { response, events, ended };
+  };
+
+  // Waits until an event matching the predicate was received
+  const waitForEvent = async (events: { event: string; data: any }[], predicate: (e: { event: string; data: any }) => boolean) => {
+    for (let i = 0; i < 100; i++) {
+      const found = events.find(predicate);
+      if (found) return found;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Event not received');
+  };
+
+  it('should return 404 for a non-existent session', async () => {
+    const { response } = await openStream('missing-session');
+    expect(response.statusCode).toBe(404);
+    response.resume();
+  });
+
+  it('should send the initial snapshot, new snapshots and heartbeats', async () => {
+    sessionService.createSession('sse-1');
+    const { response, events } = await openStream('sse-1');
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    await waitForEvent(events, (e) => e.event === 'snapshot' && e.data.currentState === 'Inaktiv');
+
+    sessionService.sendEvent('sse-1', { type: 'LADE_NEUE_LISTE', list: ['E1', 'E2'], context: 'ENTITAET' });
+    const update = await waitForEvent(events, (e) => e.event === 'snapshot' && e.data.currentFrame === 'E1');
+    expect(update.data.currentState).toEqual({ ArbeitsModus: 'Entitaet' });
+
+    await waitForEvent(events, (e) => e.event === 'heartbeat');
+    response.destroy();
+  });
+
+  it('should send a terminal event and close the stream when the session is deleted', async () => {
+    sessionService.createSession('sse-2');
+    const { events, ended } = await openStream('sse-2');
+    await waitForEvent(events, (e) => e.event === 'snapshot');
+
+    sessionService.removeSession('sse-2');
+
+    await ended;
+    expect(events[events.length - 1]).toEqual({ event: 'end', data: { sessionId: 'sse-2', reason: 'deleted' } });
+  });
+
+  it('should send a terminal event and close the stream when the session reaches DienstAbgeschlossen', async () => {
+    sessionService.createSession('sse-3');
+    const { events, ended } = await openStream('sse-3');
+    await waitForEvent(events, (e) => e.event === 'snapshot');
+
+    sessionService.sendEvent('sse-3', { type: 'AUSSCHALTEN' });
+
+    await ended;
+    expect(events[events.length - 2].data.currentState).toBe('DienstAbgeschlossen');
+    expect(events[events.length - 1]).toEqual({ event: 'end', data: { sessionId: 'sse-3', reason: 'completed' } });
+  });
+});
@@ -0,0 +1,142 @@
+import express from 'express';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import WebSocket, { WebSocketServer } from 'ws';
+import { apiRoutes } from '../../src/api/routes';
+import { attachWebSocketServer } from '../../src/api/websocket';
+import { sessionService } from '../../src/services/session.service';
+
+// Temporary Express app with WebSocket endpoint for testing only
+const app = express();
+app.use(express.json());
+app.use('/api', apiRoutes);
+
+/* --------------------------------------------------------------
+  Integration tests for the WebSocket push channel
+  Tests:
+  - subscribe / initial snapshot
+  - snapshot notifications on state changes
+  - creation and deletion notifications
+  -------------------------------------------------------------- */
+
+describe('WebSocket Push Channel', () => {
+  let server: Server;
+  let wss: WebSocketServer;
+  let url: string;
+  const clients: WebSocket[] = [];
+
+  beforeAll((done) => {
+    server = createServer(app);
+    wss = attachWebSocketServer(server, '/api/ws');
+    server.listen(0, () => {
+      url = `ws://localhost:${(server.address() as AddressInfo).port}/api/ws`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    (sessionService as any).activeSessions.clear();
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.close());
+  });
+
+  afterAll((done) => {
+    wss.close();
+    server.close(() => done());
+  });
+
+  // Opens a client and collects all received messages
+  const connect = async () => {
+    const client = new WebSocket(url);
+    const messages: any[] = [];
+    client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    clients.push(client);
+    await new Promise((resolve) => client.once('open', resolve));
+    return { client, messages };
+  };
+
+  // Waits until a message matching the predicate was received
+  const waitForMessage = async (messages: any[], predicate: (m: any) => boolean) => {
+    for (let i = 0; i < 100; i++) {
+      const found = messages.find(predicate);
+      if (found) return found;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Message not received');
+  };
+
+  it('should send the current snapshot right after subscribing', async () => {
+    sessionService.createSession('ws-1');
+    const { client, messages } = await connect();
+
+    client.send(JSON.stringify({ action: 'subscribe', sessionIds: ['ws-1'] }));
+
+    const message = await waitForMessage(messages, (m) => m.type === 'SESSION_SNAPSHOT');
+    expect(message.sessionId).toBe('ws-1');
+    expect(message.snapshot.currentState).toBe('Inaktiv');
+  });
+
+  it('should push a new snapshot every time the session transitions', async () => {
+    sessionService.createSession('ws-2');
+    const { client, messages } = await connect();
+    client.send(JSON.stringify({ action: 'subscribe', sessionIds: ['ws-2'] }));
+    await waitForMessage(messages, (m) => m.type === 'SUBSCRIBED');
+
+    await request(app)
+      .post('/api/session/ws-2/event')
+      .send({ type: 'LADE_NEUE_LISTE', list: ['E1', 'E2'], context: 'ENTITAET' });
+    await request(app).post('/api/session/ws-2/event').send({ type: 'NAECHSTER_FRAME' });
+
+    const message = await waitForMessage(messages, (m) => m.type === 'SESSION_SNAPSHOT' && m.snapshot.currentFrame === 'E2');
+    expect(message.snapshot.currentState).toEqual({ ArbeitsModus: 'Entitaet' });
+  });
+
+  it('should not push a snapshot for ignored events', async () => {
+    sessionService.createSession('ws-3');
+    const { client, messages } = await connect();
+    client.send(JSON.stringify({ action: 'subscribe', sessionIds: ['ws-3'] }));
+    await waitForMessage(messages, (m) => m.type === 'SESSION_SNAPSHOT');
+
+    // NAECHSTER_FRAME is not handled in 'Inaktiv'
+    sessionService.sendEvent('ws-3', { type: 'NAECHSTER_FRAME' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(messages.filter((m) => m.type === 'SESSION_SNAPSHOT')).toHaveLength(1);
+  });
+
+  it('should notify about creation and deletion and only for subscribed sessions', async () => {
+    const { client, messages } = await connect();
+    client.send(JSON.stringify({ action: 'subscribe', sessionIds: ['ws-4'] }));
+    await waitForMessage(messages, (m) => m.type === 'SUBSCRIBED');
+
+    await request(app).post('/api/session/other-session');
+    await request(app).post('/api/session/ws-4');
+    await request(app).delete('/api/session/ws-4');
+
+    await waitForMessage(messages, (m) => m.type === 'SESSION_CREATED' && m.sessionId === 'ws-4');
+    await waitForMessage(messages, (m) => m.type === 'SESSION_DELETED' && m.sessionId === 'ws-4');
+    expect(messages.some((m) => m.sessionId === 'other-session')).toBe(false);
+  });
+
+  it('should deliver notifications of all sessions when subscribed to "*"', async () => {
+    const { client, messages } = await connect();
+    client.send(JSON.stringify({ action: 'subscribe', sessionIds: ['*'] }));
+    await waitForMessage(messages, (m) => m.type === 'SUBSCRIBED');
+
+    sessionService.createSession('any-session');
+
+    const message = await waitForMessage(messages, (m) => m.type === 'SESSION_CREATED');
+    expect(message.sessionId).toBe('any-session');
+  });
+
+  it('should reply with an error for invalid messages', async () => {
+    const { client, messages } = await connect();
+    client.send('not json');
+
+    const message = await waitForMessage(messages, (m) => m.type === 'ERROR');
+    expect(message.error).toContain('Invalid message');
+  });
+});
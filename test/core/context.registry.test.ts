@@ -0,0 +1,132 @@
+import { createActor } from 'xstate';
+import { createFrameMachine } from '../../src/core/frame.machine';
+import { createListKontextRegistry, getArbeitsKontexte } from '../../src/core/context.registry';
+
+/* --------------------------------------------------------------
+  LIST CONTEXT REGISTRY TESTS
+  These tests verify that additionally registered list contexts
+  behave like ENTITAET and ALLGEMEIN: loading, navigation, search
+  and the return from emergency mode via the history state.
+-------------------------------------------------------------- */
+
+describe('createListKontextRegistry', () => {
+
+  it('should contain the built-in list contexts and derive the substate of registered ones', () => {
+    const registry = createListKontextRegistry([{ name: 'CHECKLISTE' }, { name: 'WARTUNG', state: 'Instandhaltung' }]);
+
+    expect(Array.from(registry.keys())).toEqual(['ENTITAET', 'ALLGEMEIN', 'NOTFALL', 'CHECKLISTE', 'WARTUNG']);
+    expect(getArbeitsKontexte(registry).map((kontext) => kontext.state))
+      .toEqual(['Entitaet', 'Allgemein', 'Checkliste', 'Instandhaltung']);
+  });
+
+  it('should reject invalid, reserved and duplicate names and states', () => {
+    expect(() => createListKontextRegistry([{ name: 'checkliste' }])).toThrow('upper-case letters');
+    expect(() => createListKontextRegistry([{ name: 'NOTFALL' }])).toThrow('already in use');
+    expect(() => createListKontextRegistry([{ name: 'TRAINING' }, { name: 'TRAINING' }])).toThrow('already in use');
+    expect(() => createListKontextRegistry([{ name: 'TRAINING', state: 'Entitaet' }])).toThrow("state 'Entitaet'");
+    expect(() => createListKontextRegistry([{ name: 'TRAINING', state: 'Schulung.A' }])).toThrow('invalid');
+  });
+});
+
+describe('Frame Machine with registered list contexts', () => {
+  const machine = createFrameMachine(createListKontextRegistry([{ name: 'CHECKLISTE' }, { name: 'WARTUNG' }]));
+
+  it('should load, navigate and search a registered list', () => {
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'CHECKLISTE', list: ['C1', 'C2', { id: 'C3', title: 'Funkcheck' }] });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Checkliste' });
+    expect(actor.getSnapshot().context.anzeigeKontext).toBe('CHECKLISTE');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('C1');
+
+    actor.send({ type: 'NAECHSTER_FRAME' });
+    expect(actor.getSnapshot().context.weitereIndizes.CHECKLISTE).toBe(1);
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('C2');
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'Funkcheck' });
+    expect(actor.getSnapshot().context.weitereIndizes.CHECKLISTE).toBe(2);
+
+    // End of the list: the guard prevents the navigation
+    expect(actor.getSnapshot().can({ type: 'NAECHSTER_FRAME' })).toBe(false);
+  });
+
+  it('should not change the context for navigation without effect', () => {
+    const actor = createActor(machine).start();
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'CHECKLISTE', list: ['C1', 'C2'] });
+    const before = actor.getSnapshot().context;
+
+    actor.send({ type: 'ERSTER_FRAME' });
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'C1' });
+
+    expect(actor.getSnapshot().context.weitereIndizes).toBe(before.weitereIndizes);
+    expect(actor.getSnapshot().context.weitereListen).toBe(before.weitereListen);
+  });
+
+  it('should keep the lists of all contexts when switching between them', () => {
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['E1', 'E2'] });
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'WARTUNG', list: ['W1', 'W2'] });
+    actor.send({ type: 'NAECHSTER_FRAME' });
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'CHECKLISTE', list: ['C1'] });
+
+    const { value, context } = actor.getSnapshot();
+    expect(value).toEqual({ ArbeitsModus: 'Checkliste' });
+    expect(context.entitaetListe.map((frame) => frame.id)).toEqual(['E1', 'E2']);
+    expect(context.weitereListen.WARTUNG.map((frame) => frame.id)).toEqual(['W1', 'W2']);
+    expect(context.weitereIndizes).toEqual({ WARTUNG: 1, CHECKLISTE: 0 });
+
+    // Reloading the same context stays in the substate and resets the index
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'CHECKLISTE', list: ['X1', 'X2'] });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Checkliste' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('X1');
+  });
+
+  it('should return to the registered substate and its frame after an emergency', () => {
+    const actor = createActor(machine).start();
+
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'WARTUNG', list: ['W1', 'W2'] });
+    actor.send({ type: 'NAECHSTER_FRAME' });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1'] });
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    actor.send({ type: 'SCHLIESSEN' });
+
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Wartung' });
+    expect(actor.getSnapshot().context.anzeigeKontext).toBe('WARTUNG');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('W2');
+  });
+
+  it('should ignore LADE_NEUE_LISTE for contexts that are not registered', () => {
+    const actor = createActor(createFrameMachine(createListKontextRegistry())).start();
+
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'CHECKLISTE', list: ['C1'] });
+    expect(actor.getSnapshot().value).toBe('Inaktiv');
+  });
+});
+
+describe('Configured list contexts (LIST_CONTEXTS)', () => {
+  const original = process.env.LIST_CONTEXTS;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.LIST_CONTEXTS;
+    else process.env.LIST_CONTEXTS = original;
+  });
+
+  it('should register the configured contexts for the machine and the event validation', () => {
+    process.env.LIST_CONTEXTS = 'CHECKLISTE, WARTUNG:Instandhaltung';
+
+    jest.isolateModules(() => {
+      const { frameMachine } = require('../../src/core/frame.machine') as typeof import('../../src/core/frame.machine');
+      const { validateFrameEvent } = require('../../src/core/event.validator') as typeof import('../../src/core/event.validator');
+
+      const actor = createActor(frameMachine).start();
+      actor.send({ type: 'LADE_NEUE_LISTE', context: 'WARTUNG', list: ['W1'] });
+      expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Instandhaltung' });
+
+      expect(validateFrameEvent({ type: 'LADE_NEUE_LISTE', context: 'CHECKLISTE', list: [] })).toEqual([]);
+      expect(validateFrameEvent({ type: 'LADE_NEUE_LISTE', context: 'TRAINING', list: [] })).toEqual([
+        { field: 'context', code: 'invalid_value', message: 'must be one of: ENTITAET, ALLGEMEIN, CHECKLISTE, WARTUNG' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { validateFrameEvent, assertValidFrameEvent, EventValidationError } from '../../src/core/event.validator';
+
+/* --------------------------------------------------------------
+  EVENT VALIDATOR TESTS
+  These tests verify that the payload of every FrameEvent is validated
+  strictly and that every invalid field is reported.
+-------------------------------------------------------------- */
+
+describe('validateFrameEvent', () => {
+
+  // Test: valid events of every type pass.
+  it('should accept valid events of every type', () => {
+    const events = [
+      { type: 'SCHLIESSEN' },
+      { type: 'ZURUCKSETZEN' },
+      { type: 'AUSSCHALTEN' },
+      { type: 'NAECHSTER_FRAME' },
+      { type: 'VORHERIGER_FRAME' },
+      { type: 'SUCHE_FRAME', frameName: 'E1' },
+      { type: 'SUCHE_FRAME', frameName: 'e', match: 'SUBSTRING', scope: 'ALL', next: true },
+      { type: 'ERSTER_FRAME' },
+      { type: 'LETZTER_FRAME' },
+      { type: 'SPRINGE_ZU_INDEX', index: 0 },
+      { type: 'SPRINGE_UM_OFFSET', offset: -3 },
+      { type: 'NOTFALL_EMPFANGEN', list: ['N1'] },
+      { type: 'NOTFALL_EMPFANGEN', list: ['N1'], id: 'BRAND-7', priority: 3 },
+      { type: 'NOTFALL_EMPFANGEN', list: ['N1'], timeoutMs: 30000, onTimeout: 'REPROMPT' },
+      { type: 'USER_BESTAETIGT_NOTFALL', accepted: false },
+      { type: 'USER_BESTAETIGT_NOTFALL', accepted: true, user: 'dispatcher-12', comment: 'On my way' },
+      { type: 'LADE_NEUE_LISTE', list: [], context: 'ALLGEMEIN' },
+      { type: 'FRAMES_ANHAENGEN', context: 'ENTITAET', list: ['E9'] },
+      { type: 'FRAMES_EINFUEGEN', context: 'ENTITAET', index: 0, list: [{ id: 'E0' }] },
+      { type: 'FRAME_ENTFERNEN', context: 'ALLGEMEIN', frameId: 'A1' },
+      { type: 'FRAME_VERSCHIEBEN', context: 'ALLGEMEIN', frameId: 'A1', toIndex: 2 },
+      { type: 'DIASHOW_STARTEN', intervalMs: 1000 },
+      { type: 'DIASHOW_PAUSIEREN' },
+      { type: 'DIASHOW_STOPPEN' },
+    ];
+    events.forEach((event) => expect(validateFrameEvent(event)).toEqual([]));
+  });
+
+  // Test: LADE_NEUE_LISTE without list, with a non-array list or with the NOTFALL context is rejected.
+  it('should reject invalid LADE_NEUE_LISTE payloads', () => {
+    expect(validateFrameEvent({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET' })).toEqual([
+      { field: 'list', code: 'required', message: 'is required' },
+    ]);
+    expect(validateFrameEvent({ type: 'LADE_NEUE_LISTE', list: 'E1', context: 'NOTFALL' })).toEqual([
+      { field: 'list', code: 'invalid_type', message: 'must be an array of frames' },
+      { field: 'context', code: 'invalid_value', message: 'must be one of: ENTITAET, ALLGEMEIN' },
+    ]);
+    expect(validateFrameEvent({ type: 'LADE_NEUE_LISTE', list: ['E1', 2], context: 'ENTITAET' })).toEqual([
+      { field: 'list[1]', code: 'invalid_type', message: 'must be a string or a frame object' },
+    ]);
+  });
+
+  // Test: frame objects need a non-empty ID and must not contain unknown fields.
+  it('should validate frame objects in lists', () => {
+    expect(validateFrameEvent({
+      type: 'NOTFALL_EMPFANGEN',
+      list: ['N1', { id: 'N2', title: 'Brand', template: 'alarm', payload: { stufe: 2 }, metadata: {} }],
+    })).toEqual([]);
+    expect(validateFrameEvent({
+      type: 'LADE_NEUE_LISTE',
+      context: 'ENTITAET',
+      list: [{ title: 'E1' }, { id: 'E2', payload: 'x', color: 'red' }],
+    })).toEqual([
+      { field: 'list[0].id', code: 'required', message: 'is required' },
+      { field: 'list[1].payload', code: 'invalid_type', message: 'must be an object' },
+      { field: 'list[1].color', code: 'unknown_field', message: 'is not allowed for a frame' },
+    ]);
+  });
+
+  // Test: the optional navigation mode must be a known mode.
+  it('should validate the optional navigation mode', () => {
+    expect(validateFrameEvent({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: [], navigation: 'WRAP' })).toEqual([]);
+    expect(validateFrameEvent({ type: 'NOTFALL_EMPFANGEN', list: [], navigation: 'LOOP' })).toEqual([
+      { field: 'navigation', code: 'invalid_value', message: 'must be one of: STOP, WRAP, BOUNCE' },
+    ]);
+  });
+
+  // Test: the optional emergency ID must not be empty, the priority must be a non-negative integer,
+  // the confirmation timeout at least one second with a known policy.
+  it('should validate the optional emergency ID, priority and confirmation timeout', () => {
+    expect(validateFrameEvent({ type: 'NOTFALL_EMPFANGEN', list: [], id: '', priority: -1 })).toEqual([
+      { field: 'id', code: 'invalid_value', message: 'must not be empty' },
+      { field: 'priority', code: 'invalid_value', message: 'must be at least 0' },
+    ]);
+    expect(validateFrameEvent({ type: 'NOTFALL_EMPFANGEN', list: [], priority: 'high' })[0]).toMatchObject({ field: 'priority', code: 'invalid_type' });
+    expect(validateFrameEvent({ type: 'NOTFALL_EMPFANGEN', list: [], timeoutMs: 100, onTimeout: 'IGNORE' })).toEqual([
+      { field: 'timeoutMs', code: 'invalid_value', message: 'must be at least 1000' },
+      { field: 'onTimeout', code: 'invalid_value', message: 'must be one of: AUTO_ACCEPT, REPROMPT, ESCALATE' },
+    ]);
+  });
+
+  // Test: jump targets must be integers, absolute indices must not be negative.
+  it('should reject invalid SPRINGE_ZU_INDEX and SPRINGE_UM_OFFSET payloads', () => {
+    expect(validateFrameEvent({ type: 'SPRINGE_ZU_INDEX', index: -1 })).toEqual([
+      { field: 'index', code: 'invalid_value', message: 'must be at least 0' },
+    ]);
+    expect(validateFrameEvent({ type: 'SPRINGE_ZU_INDEX', index: '2' })[0]).toMatchObject({ field: 'index', code: 'invalid_type' });
+    expect(validateFrameEvent({ type: 'SPRINGE_UM_OFFSET', offset: 1.5 })[0]).toMatchObject({ field: 'offset', code: 'invalid_type' });
+    expect(validateFrameEvent({ type: 'SPRINGE_UM_OFFSET' })[0]).toMatchObject({ field: 'offset', code: 'required' });
+  });
+
+  // Test: the slideshow interval is optional, but must be an integer of at least one second.
+  it('should validate the optional slideshow interval', () => {
+    expect(validateFrameEvent({ type: 'DIASHOW_STARTEN' })).toEqual([]);
+    expect(validateFrameEvent({ type: 'DIASHOW_STARTEN', intervalMs: 5000 })).toEqual([]);
+    expect(validateFrameEvent({ type: 'DIASHOW_STARTEN', intervalMs: 500 })).toEqual([
+      { field: 'intervalMs', code: 'invalid_value', message: 'must be at least 1000' },
+    ]);
+    expect(validateFrameEvent({ type: 'DIASHOW_STARTEN', intervalMs: '5s' })[0]).toMatchObject({ field: 'intervalMs', code: 'invalid_type' });
+  });
+
+  // Test: the list editing events need a list context and a valid position or frame ID.
+  it('should reject invalid list editing payloads', () => {
+    expect(validateFrameEvent({ type: 'FRAMES_ANHAENGEN', context: 'NOTFALL', list: 'E9' })).toEqual([
+      { field: 'context', code: 'invalid_value', message: expect.stringContaining('must be one of') },
+      { field: 'list', code: 'invalid_type', message: 'must be an array of frames' },
+    ]);
+    expect(validateFrameEvent({ type: 'FRAMES_EINFUEGEN', context: 'ENTITAET', list: ['E0'], index: -1 })[0]).toMatchObject({ field: 'index', code: 'invalid_value' });
+    expect(validateFrameEvent({ type: 'FRAME_ENTFERNEN', context: 'ENTITAET' })[0]).toMatchObject({ field: 'frameId', code: 'required' });
+    expect(validateFrameEvent({ type: 'FRAME_VERSCHIEBEN', context: 'ENTITAET', frameId: 'E1', toIndex: 1.5 })[0]).toMatchObject({ field: 'toIndex', code: 'invalid_type' });
+  });
+
+  // Test: the payload fields of SUCHE_FRAME and USER_BESTAETIGT_NOTFALL are checked.
+  it('should reject invalid SUCHE_FRAME and USER_BESTAETIGT_NOTFALL payloads', () => {
+    expect(validateFrameEvent({ type: 'SUCHE_FRAME', frameName: ' ' })[0]).toMatchObject({ field: 'frameName', code: 'invalid_value' });
+    expect(validateFrameEvent({ type: 'SUCHE_FRAME', frameName: 1 })[0]).toMatchObject({ field: 'frameName', code: 'invalid_type' });
+    expect(validateFrameEvent({ type: 'SUCHE_FRAME', frameName: 'E1', match: 'FUZZY', scope: 'NOTFALL', next: 'yes' })).toEqual([
+      { field: 'match', code: 'invalid_value', message: 'must be one of: EXACT, IGNORE_CASE, PREFIX, SUBSTRING' },
+      { field: 'scope', code: 'invalid_value', message: 'must be one of: ACTIVE, ALL' },
+      { field: 'next', code: 'invalid_type', message: 'must be a boolean' },
+    ]);
+    expect(validateFrameEvent({ type: 'USER_BESTAETIGT_NOTFALL', accepted: 'yes' })[0]).toMatchObject({ field: 'accepted', code: 'invalid_type' });
+    expect(validateFrameEvent({ type: 'USER_BESTAETIGT_NOTFALL' })[0]).toMatchObject({ field: 'accepted', code: 'required' });
+    expect(validateFrameEvent({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true, user: ' ', comment: 3 })).toEqual([
+      { field: 'user', code: 'invalid_value', message: 'must not be empty' },
+      { field: 'comment', code: 'invalid_type', message: 'must be a string' },
+    ]);
+  });
+
+  // Test: unknown fields, unknown types and non-objects are rejected.
+  it('should reject unknown fields, unknown types and non-objects', () => {
+    expect(validateFrameEvent({ type: 'NAECHSTER_FRAME', steps: 2 })).toEqual([
+      { field: 'steps', code: 'unknown_field', message: 'is not allowed for NAECHSTER_FRAME' },
+    ]);
+    expect(validateFrameEvent({ type: 'FOO' })[0]).toMatchObject({ field: 'type', code: 'invalid_value' });
+    expect(validateFrameEvent({})[0]).toMatchObject({ field: 'type', code: 'required' });
+    expect(validateFrameEvent('NAECHSTER_FRAME')[0]).toMatchObject({ field: 'event', code: 'invalid_type' });
+  });
+
+  // Test: the field paths can be prefixed, e.g. for batches.
+  it('should prefix the field paths and throw an EventValidationError', () => {
+    expect(validateFrameEvent({ type: 'SUCHE_FRAME' }, 'events[2].')[0].field).toBe('events[2].frameName');
+
+    expect(() => assertValidFrameEvent({ type: 'SUCHE_FRAME' })).toThrow(EventValidationError);
+    expect(() => assertValidFrameEvent({ type: 'SUCHE_FRAME' })).toThrow('frameName: is required');
+  });
+});
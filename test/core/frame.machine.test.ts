@@ -1,6 +1,7 @@
-import { createActor, waitFor, Snapshot } from 'xstate';
-import { frameMachine } from '../../src/core/frame.machine';
-import type { FrameContext, FrameEvent } from '../../src/core/machine.types';
+import { createActor, waitFor, Snapshot, SimulatedClock } from 'xstate';
+import { frameMachine, createFrameMachine, findFrame, BESTAETIGUNG_FRAME } from '../../src/core/frame.machine';
+import { createListKontextRegistry } from '../../src/core/context.registry';
+import type { FrameContext, FrameEvent, NavigationsModus } from '../../src/core/machine.types';
 
 /* --------------------------------------------------------------
   FRAME MACHINE TESTS
@@ -159,19 +160,19 @@ describe('Frame Machine Logic & Scenarios', () => {
     const snap1 = actor.getSnapshot();
     // Check for compound state { ArbeitsModus: 'Entitaet' }
     expect(snap1.value).toEqual({ ArbeitsModus: 'Entitaet' });
-    expect(snap1.context.entitaetListe).toEqual(testListe);
-    expect(snap1.context.aktuellerFrame).toBe('E1'); // Index 0
+    expect(snap1.context.entitaetListe.map((f) => f.id)).toEqual(testListe);
+    expect(snap1.context.aktuellerFrame.id).toBe('E1'); // Index 0
 
     // 3. Navigation: Next frame
     actor.send({ type: 'NAECHSTER_FRAME' });
     const snap2 = actor.getSnapshot();
     expect(snap2.context.aktuellerEntitaetIndex).toBe(1);
-    expect(snap2.context.aktuellerFrame).toBe('E2');
+    expect(snap2.context.aktuellerFrame.id).toBe('E2');
 
     // 4. Navigation: Previous frame
     actor.send({ type: 'VORHERIGER_FRAME' });
     const snap3 = actor.getSnapshot();
-    expect(snap3.context.aktuellerFrame).toBe('E1');
+    expect(snap3.context.aktuellerFrame.id).toBe('E1');
   });
 
   // ---------------------------------------------------------
@@ -190,7 +191,7 @@ describe('Frame Machine Logic & Scenarios', () => {
     const snap = actor.getSnapshot();
     expect(snap.value).toEqual({ ArbeitsModus: 'Allgemein' });
     expect(snap.context.anzeigeKontext).toBe('ALLGEMEIN');
-    expect(snap.context.aktuellerFrame).toBe('A1');
+    expect(snap.context.aktuellerFrame.id).toBe('A1');
   });
 
   // ---------------------------------------------------------
@@ -210,12 +211,12 @@ describe('Frame Machine Logic & Scenarios', () => {
     const snapNotfall = actor.getSnapshot();
     // Must be in the 'Bestaetigen' substate
     expect(snapNotfall.value).toEqual({ NotfallModus: 'Bestaetigen' }); 
-    expect(snapNotfall.context.notfallListe).toEqual(list);
+    expect(snapNotfall.context.notfallListe.map((f) => f.id)).toEqual(list);
 
     // 3. User confirms emergency (-> Anzeigen)
     actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
     expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Anzeigen' });
-    expect(actor.getSnapshot().context.aktuellerFrame).toBe('N1');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('N1');
 
     // 4. Emergency is ended (system-side)
     actor.send({ type: 'SCHLIESSEN' }); // This triggers the history transition
@@ -245,7 +246,7 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
     });
 
     // Check: Start is index 0 ('FrameA')
-    expect(actor.getSnapshot().context.aktuellerFrame).toBe('FrameA');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('FrameA');
     expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(0);
 
     // 3. Action: Search for 'FrameC'
@@ -253,7 +254,7 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
 
     // 4. Expectation: Frame is now 'FrameC', index is 2
     const snapshot = actor.getSnapshot();
-    expect(snapshot.context.aktuellerFrame).toBe('FrameC');
+    expect(snapshot.context.aktuellerFrame.id).toBe('FrameC');
     expect(snapshot.context.aktuellerEntitaetIndex).toBe(2);
   });
 
@@ -268,14 +269,14 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
     });
 
     // We are at FrameA
-    expect(actor.getSnapshot().context.aktuellerFrame).toBe('FrameA');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('FrameA');
 
     // Search for non-existent frame
     actor.send({ type: 'SUCHE_FRAME', frameName: 'FrameC' });
 
     // Expectation: Everything stays as before
     const snapshot = actor.getSnapshot();
-    expect(snapshot.context.aktuellerFrame).toBe('FrameA');
+    expect(snapshot.context.aktuellerFrame.id).toBe('FrameA');
     expect(snapshot.context.aktuellerEntitaetIndex).toBe(0);
   });
 
@@ -297,7 +298,7 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
     actor.send({ type: 'SUCHE_FRAME', frameName: 'Info3' });
 
     const snapshot = actor.getSnapshot();
-    expect(snapshot.context.aktuellerFrame).toBe('Info3');
+    expect(snapshot.context.aktuellerFrame.id).toBe('Info3');
     expect(snapshot.context.aktuellerAllgemeinIndex).toBe(2);
   });
 
@@ -320,13 +321,13 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
 
     // Ensure we are in the correct state
     expect(actor.getSnapshot().matches({ NotfallModus: 'Anzeigen' })).toBe(true);
-    expect(actor.getSnapshot().context.aktuellerFrame).toBe('Alarm1');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('Alarm1');
 
     // 3. Perform search
     actor.send({ type: 'SUCHE_FRAME', frameName: 'Alarm2' });
 
     const snapshot = actor.getSnapshot();
-    expect(snapshot.context.aktuellerFrame).toBe('Alarm2');
+    expect(snapshot.context.aktuellerFrame.id).toBe('Alarm2');
     expect(snapshot.context.aktuellerNotfallIndex).toBe(1);
   });
 
@@ -350,7 +351,7 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
     const snapshot = actor.getSnapshot();
     // The search should have no effect since the event is not defined in this state
     // The frame should still be the confirmation frame
-    expect(snapshot.context.aktuellerFrame).toBe('BESTAETIGUNG_FRAME'); 
+    expect(snapshot.context.aktuellerFrame.id).toBe('BESTAETIGUNG_FRAME'); 
     expect(snapshot.context.aktuellerNotfallIndex).toBe(0);
   });
 
@@ -368,7 +369,7 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
     // Search in General context
     actor.send({ type: 'SUCHE_FRAME', frameName: 'A2' });
     
-    expect(actor.getSnapshot().context.aktuellerFrame).toBe('A2');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('A2');
     expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(1);
 
     // Switch back to Entity
@@ -377,7 +378,7 @@ describe('Test search functionality (event: SUCHE_FRAME) for future voice input'
     // Search in Entity context (should not search in the old General list)
     actor.send({ type: 'SUCHE_FRAME', frameName: 'E2' });
 
-    expect(actor.getSnapshot().context.aktuellerFrame).toBe('E2');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E2');
     expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(1);
   });
 });
@@ -405,7 +406,7 @@ describe('frame.machine.ts - Edge Case and Uncovered Lines Coverage', () => {
     // 3. Assert the machine has transitioned to the new substate.
     const finalSnap = await waitFor(actor, (s) => s.matches({ ArbeitsModus: 'Allgemein' }));
     expect(finalSnap.context.anzeigeKontext).toBe('ALLGEMEIN');
-    expect(finalSnap.context.aktuellerFrame).toBe('A1');
+    expect(finalSnap.context.aktuellerFrame.id).toBe('A1');
   });
 
   // Test for line 199 (true branch of 'isSameAnzeigeKontext' guard)
@@ -415,17 +416,17 @@ describe('frame.machine.ts - Edge Case and Uncovered Lines Coverage', () => {
 
     // 1. Load an initial list and navigate into it.
     actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['E1', 'E2', 'E3'] });
-    await waitFor(actor, (s) => s.context.aktuellerFrame === 'E1');
+    await waitFor(actor, (s) => s.context.aktuellerFrame.id === 'E1');
     actor.send({ type: 'NAECHSTER_FRAME' });
-    await waitFor(actor, (s) => s.context.aktuellerFrame === 'E2');
+    await waitFor(actor, (s) => s.context.aktuellerFrame.id === 'E2');
     expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(1);
 
     // 2. Send another LADE_NEUE_LISTE event for the *same* context.
     actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['X1', 'X2'] });
 
     // 3. The `isSameAnzeigeKontext` guard will be true, triggering the reload.
-    const finalSnap = await waitFor(actor, (s) => s.context.aktuellerFrame === 'X1');
-    expect(finalSnap.context.entitaetListe).toEqual(['X1', 'X2']);
+    const finalSnap = await waitFor(actor, (s) => s.context.aktuellerFrame.id === 'X1');
+    expect(finalSnap.context.entitaetListe.map((f) => f.id)).toEqual(['X1', 'X2']);
     expect(finalSnap.context.aktuellerEntitaetIndex).toBe(0); // Index is reset.
   });
 
@@ -438,18 +439,680 @@ describe('frame.machine.ts - Edge Case and Uncovered Lines Coverage', () => {
 
     const snapshot = await waitFor(actor, (s) => s.matches({ ArbeitsModus: 'Entitaet' }));
     
-    expect(snapshot.context.aktuellerFrame).toBe('LEERER_FRAME');
+    expect(snapshot.context.aktuellerFrame.id).toBe('LEERER_FRAME');
   });
 
-  // Documentation test for unreachable code (lines 52 and 86).
+  // Documentation test for unreachable code (getActiveContext and setNewList).
   it('documents that some branches are unreachable by design', () => {
     console.warn(
       `[Test Documentation for frame.machine.ts]:
-      - Line ~52 (default in getActiveContext): This branch is unreachable. Actions using 'getActiveContext' only run in states where 'anzeigeKontext' is always valid.
-      - Line ~86 (else in setNewList): This branch is unreachable. All 'LADE_NEUE_LISTE' transitions are protected by guards that prevent an unknown context, making the 'else' branch dead code.`
+      - getActiveContext (no registry entry): This branch is unreachable. Actions using 'getActiveContext' only run in states where 'anzeigeKontext' is always a registered list context.
+      - setNewList (unknown context): This branch is unreachable. All 'LADE_NEUE_LISTE' transitions are protected by 'isListKontext' guards that prevent an unknown context.`
     );
     // This test passes by default, its purpose is to formally acknowledge the unreachable code.
     expect(true).toBe(true);
   })
 
-});
\ No newline at end of file
+});
+
+// ---------------------------------------------------------
+// Structured frame objects
+// ---------------------------------------------------------
+describe('Structured frame objects', () => {
+
+  it('should keep frame objects and default a missing title to the ID', () => {
+    const actor = createActor(frameMachine).start();
+
+    actor.send({
+      type: 'LADE_NEUE_LISTE',
+      context: 'ENTITAET',
+      list: [
+        { id: 'E1', title: 'Einsatz 1', template: 'einsatz', payload: { einsatzNr: 4711 } },
+        { id: 'E2' },
+        'E3',
+      ],
+    });
+
+    const { context } = actor.getSnapshot();
+    expect(context.aktuellerFrame).toEqual({ id: 'E1', title: 'Einsatz 1', template: 'einsatz', payload: { einsatzNr: 4711 } });
+    expect(context.entitaetListe[1]).toEqual({ id: 'E2', title: 'E2' });
+    expect(context.entitaetListe[2]).toEqual({ id: 'E3', title: 'E3' });
+  });
+
+  it('should find a frame by its ID first and then by its title', () => {
+    const actor = createActor(frameMachine).start();
+
+    actor.send({
+      type: 'LADE_NEUE_LISTE',
+      context: 'ALLGEMEIN',
+      list: [{ id: 'A1', title: 'Wetter' }, { id: 'A2', title: 'A1' }, { id: 'A3', title: 'Verkehr' }],
+    });
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'Verkehr' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('A3');
+
+    // 'A1' is both the ID of the first and the title of the second frame: the ID wins
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'A1' });
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(0);
+  });
+
+  it('should show the confirmation frame until an emergency with frame objects is confirmed', () => {
+    const actor = createActor(frameMachine).start();
+
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: [{ id: 'N1', title: 'Brand', metadata: { prioritaet: 1 } }] });
+    expect(actor.getSnapshot().context.aktuellerFrame).toEqual(BESTAETIGUNG_FRAME);
+
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    expect(actor.getSnapshot().context.aktuellerFrame).toEqual({ id: 'N1', title: 'Brand', metadata: { prioritaet: 1 } });
+  });
+});
+
+
+// ---------------------------------------------------------
+// Navigation modes (STOP, WRAP, BOUNCE)
+// ---------------------------------------------------------
+describe('Navigation modes', () => {
+  const machine = createFrameMachine(createListKontextRegistry([{ name: 'CHECKLISTE' }]));
+  const list = ['F1', 'F2', 'F3'];
+
+  // Starts an actor showing `list` in the given context (in NotfallModus.Anzeigen for NOTFALL)
+  const start = (kontext: string, navigation?: NavigationsModus) => {
+    const actor = createActor(machine).start();
+    if (kontext === 'NOTFALL') {
+      actor.send({ type: 'NOTFALL_EMPFANGEN', list, navigation });
+      actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    } else {
+      actor.send({ type: 'LADE_NEUE_LISTE', context: kontext, list, navigation });
+    }
+    return actor;
+  };
+
+  // Sends the navigation events and returns the ID of the frame shown after each of them
+  const navigate = (actor: ReturnType<typeof start>, types: ('NAECHSTER_FRAME' | 'VORHERIGER_FRAME')[]) =>
+    types.map((type) => {
+      actor.send({ type });
+      return actor.getSnapshot().context.aktuellerFrame.id;
+    });
+
+  describe.each(['ENTITAET', 'ALLGEMEIN', 'CHECKLISTE', 'NOTFALL'])('in %s', (kontext) => {
+
+    it('STOP (default) should stop at the ends of the list', () => {
+      const actor = start(kontext);
+
+      expect(actor.getSnapshot().context.navigationsModi[kontext]).toBe('STOP');
+      expect(navigate(actor, ['VORHERIGER_FRAME', 'NAECHSTER_FRAME', 'NAECHSTER_FRAME', 'NAECHSTER_FRAME']))
+        .toEqual(['F1', 'F2', 'F3', 'F3']);
+      expect(actor.getSnapshot().can({ type: 'NAECHSTER_FRAME' })).toBe(false);
+    });
+
+    it('WRAP should continue at the other end of the list', () => {
+      const actor = start(kontext, 'WRAP');
+
+      expect(actor.getSnapshot().context.navigationsModi[kontext]).toBe('WRAP');
+      expect(navigate(actor, ['VORHERIGER_FRAME', 'NAECHSTER_FRAME', 'NAECHSTER_FRAME', 'NAECHSTER_FRAME']))
+        .toEqual(['F3', 'F1', 'F2', 'F3']);
+      expect(actor.getSnapshot().can({ type: 'NAECHSTER_FRAME' })).toBe(true);
+    });
+
+    it('BOUNCE should reverse the direction at the ends of the list', () => {
+      const actor = start(kontext, 'BOUNCE');
+
+      expect(navigate(actor, ['NAECHSTER_FRAME', 'NAECHSTER_FRAME', 'NAECHSTER_FRAME', 'NAECHSTER_FRAME']))
+        .toEqual(['F2', 'F3', 'F2', 'F1']);
+      expect(actor.getSnapshot().context.navigationsRichtungen[kontext]).toBe(-1);
+
+      // VORHERIGER_FRAME moves against the current direction and bounces as well
+      expect(navigate(actor, ['NAECHSTER_FRAME', 'VORHERIGER_FRAME', 'VORHERIGER_FRAME']))
+        .toEqual(['F2', 'F1', 'F2']);
+      expect(actor.getSnapshot().context.navigationsRichtungen[kontext]).toBe(-1);
+    });
+  });
+
+  it('should not navigate in a list with a single frame in any mode', () => {
+    (['STOP', 'WRAP', 'BOUNCE'] as const).forEach((navigation) => {
+      const actor = createActor(machine).start();
+      actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['F1'], navigation });
+
+      expect(actor.getSnapshot().can({ type: 'NAECHSTER_FRAME' })).toBe(false);
+      expect(actor.getSnapshot().can({ type: 'VORHERIGER_FRAME' })).toBe(false);
+    });
+  });
+
+  it('should keep the mode per list and reset it when the list is reloaded', () => {
+    const actor = start('ENTITAET', 'WRAP');
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ALLGEMEIN', list: ['A1', 'A2'] });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1'], navigation: 'BOUNCE' });
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    actor.send({ type: 'SCHLIESSEN' });
+
+    expect(actor.getSnapshot().context.navigationsModi).toEqual({ ENTITAET: 'WRAP', ALLGEMEIN: 'STOP', NOTFALL: 'BOUNCE' });
+
+    // Back in ENTITAET: the list still wraps
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list, navigation: 'WRAP' });
+    expect(navigate(actor, ['VORHERIGER_FRAME'])).toEqual(['F3']);
+
+    // Reloading without a mode falls back to STOP
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list });
+    expect(actor.getSnapshot().context.navigationsModi.ENTITAET).toBe('STOP');
+    expect(navigate(actor, ['VORHERIGER_FRAME'])).toEqual(['F1']);
+  });
+});
+
+
+// ---------------------------------------------------------
+// Jump events (ERSTER_FRAME, LETZTER_FRAME, SPRINGE_ZU_INDEX, SPRINGE_UM_OFFSET)
+// ---------------------------------------------------------
+describe('Jump events', () => {
+
+  it('should jump to the first, the last, an absolute and a relative frame in ArbeitsModus', () => {
+    const actor = createActor(frameMachine).start();
+    // Duplicate names: SUCHE_FRAME can only reach the first 'Info'
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ALLGEMEIN', list: ['Info', 'Wetter', 'Info', 'Verkehr', 'Info'] });
+
+    actor.send({ type: 'LETZTER_FRAME' });
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(4);
+
+    actor.send({ type: 'SPRINGE_ZU_INDEX', index: 2 });
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(2);
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('Info');
+
+    actor.send({ type: 'SPRINGE_UM_OFFSET', offset: -1 });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('Wetter');
+
+    actor.send({ type: 'SPRINGE_UM_OFFSET', offset: 2 });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('Verkehr');
+
+    actor.send({ type: 'ERSTER_FRAME' });
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(0);
+  });
+
+  it('should reject jumps outside of the list', () => {
+    const actor = createActor(frameMachine).start();
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['E1', 'E2', 'E3'] });
+    actor.send({ type: 'SPRINGE_ZU_INDEX', index: 1 });
+
+    // Jumps never wrap, not even with WRAP
+    expect(actor.getSnapshot().can({ type: 'SPRINGE_ZU_INDEX', index: 3 })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'SPRINGE_UM_OFFSET', offset: 2 })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'SPRINGE_UM_OFFSET', offset: -2 })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'SPRINGE_ZU_INDEX', index: 1.5 })).toBe(false);
+
+    actor.send({ type: 'SPRINGE_ZU_INDEX', index: 3 });
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(1);
+
+    // An empty list has neither a first nor a last frame
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: [] });
+    expect(actor.getSnapshot().can({ type: 'ERSTER_FRAME' })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'LETZTER_FRAME' })).toBe(false);
+  });
+
+  it('should jump in NotfallModus.Anzeigen, but not while the emergency is being confirmed', () => {
+    const actor = createActor(frameMachine).start();
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1', 'N2', 'N3'] });
+
+    actor.send({ type: 'LETZTER_FRAME' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('BESTAETIGUNG_FRAME');
+
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    actor.send({ type: 'LETZTER_FRAME' });
+    expect(actor.getSnapshot().context.aktuellerNotfallIndex).toBe(2);
+
+    actor.send({ type: 'SPRINGE_UM_OFFSET', offset: -2 });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('N1');
+
+    actor.send({ type: 'SPRINGE_ZU_INDEX', index: 1 });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('N2');
+  });
+});
+
+
+// ---------------------------------------------------------
+// Search modes, scope and find next (event: SUCHE_FRAME)
+// ---------------------------------------------------------
+describe('Search modes, scope and find next', () => {
+
+  const loadLists = () => {
+    const actor = createActor(frameMachine).start();
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: [{ id: 'E1', title: 'Brandeinsatz' }, { id: 'E2', title: 'Lage' }] });
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ALLGEMEIN', list: ['Wetter', 'Verkehr', 'Wetterwarnung', 'Verkehr'] });
+    return actor;
+  };
+
+  it('should match ignoring case, by prefix and by substring', () => {
+    const actor = loadLists();
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'verkehr' });
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(0);
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'verkehr', match: 'IGNORE_CASE' });
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(1);
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'WETTERW', match: 'PREFIX' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('Wetterwarnung');
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'kehr', match: 'SUBSTRING' });
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(1);
+  });
+
+  it('should find the next occurrence of duplicates and wrap around', () => {
+    const actor = loadLists();
+
+    const indices = [1, 2, 3].map(() => {
+      actor.send({ type: 'SUCHE_FRAME', frameName: 'Verkehr', next: true });
+      return actor.getSnapshot().context.aktuellerAllgemeinIndex;
+    });
+
+    expect(indices).toEqual([1, 3, 1]);
+  });
+
+  it('should switch to the list of the hit when searching all lists', () => {
+    const actor = loadLists();
+
+    // Without scope ALL only the active list (ALLGEMEIN) is searched
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'brand', match: 'PREFIX' });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Allgemein' });
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'brand', match: 'PREFIX', scope: 'ALL' });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Entitaet' });
+    expect(actor.getSnapshot().context.anzeigeKontext).toBe('ENTITAET');
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E1');
+
+    // The active list is preferred, the ALLGEMEIN list keeps its index
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'Lage', scope: 'ALL' });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Entitaet' });
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(1);
+    expect(actor.getSnapshot().context.aktuellerAllgemeinIndex).toBe(0);
+
+    // The history state remembers the list of the hit
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1'] });
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    actor.send({ type: 'SCHLIESSEN' });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Entitaet' });
+  });
+
+  it('should only search the emergency list in NotfallModus', () => {
+    const actor = loadLists();
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1', 'Wetter'] });
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'Lage', scope: 'ALL' });
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Anzeigen' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('N1');
+
+    actor.send({ type: 'SUCHE_FRAME', frameName: 'wetter', match: 'IGNORE_CASE', scope: 'ALL' });
+    expect(actor.getSnapshot().context.aktuellerNotfallIndex).toBe(1);
+  });
+
+  it('should report whether, where and by which field the frame was found', () => {
+    const { context } = loadLists().getSnapshot();
+
+    expect(findFrame(context, { type: 'SUCHE_FRAME', frameName: 'lage', match: 'IGNORE_CASE', scope: 'ALL' })).toEqual({
+      found: true, kontext: 'ENTITAET', index: 1, frame: { id: 'E2', title: 'Lage' }, matchedBy: 'title',
+    });
+    expect(findFrame(context, { type: 'SUCHE_FRAME', frameName: 'Sturm', match: 'SUBSTRING', scope: 'ALL' })).toEqual({ found: false });
+  });
+});
+
+
+describe('Slideshow (DIASHOW_STARTEN, DIASHOW_PAUSIEREN, DIASHOW_STOPPEN)', () => {
+  // The delayed transitions are driven by a simulated clock instead of real timers
+  const startActor = (navigation: NavigationsModus = 'STOP') => {
+    const clock = new SimulatedClock();
+    const actor = createActor(frameMachine, { clock }).start();
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['E1', 'E2', 'E3'], navigation });
+    return { actor, clock };
+  };
+
+  const frameId = (actor: ReturnType<typeof startActor>['actor']) => actor.getSnapshot().context.aktuellerFrame.id;
+
+  // The simulated clock only fires the timers that are due, so it is advanced one interval at a time
+  const advance = (clock: SimulatedClock, intervalMs: number, times: number) => {
+    for (let i = 0; i < times; i++) clock.increment(intervalMs);
+  };
+
+  it('should advance the displayed list after every interval', () => {
+    const { actor, clock } = startActor();
+    actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 5000 });
+    expect(actor.getSnapshot().context.diashow).toEqual({ ENTITAET: { intervalMs: 5000, status: 'LAEUFT' } });
+
+    clock.increment(4999);
+    expect(frameId(actor)).toBe('E1');
+    clock.increment(1);
+    expect(frameId(actor)).toBe('E2');
+    clock.increment(5000);
+    expect(frameId(actor)).toBe('E3');
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Entitaet' });
+  });
+
+  it('should stop at the end of a list with STOP and wrap with WRAP', () => {
+    const { actor, clock } = startActor();
+    actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 1000 });
+    advance(clock, 1000, 5);
+    expect(frameId(actor)).toBe('E3');
+    expect(actor.getSnapshot().context.diashow).toEqual({});
+
+    const wrapping = startActor('WRAP');
+    wrapping.actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 1000 });
+    advance(wrapping.clock, 1000, 3);
+    expect(frameId(wrapping.actor)).toBe('E1');
+    expect(wrapping.actor.getSnapshot().context.diashow.ENTITAET.status).toBe('LAEUFT');
+  });
+
+  it('should pause, resume with the previous interval and stop', () => {
+    const { actor, clock } = startActor('WRAP');
+    actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 2000 });
+    clock.increment(1000);
+    actor.send({ type: 'DIASHOW_PAUSIEREN' });
+    clock.increment(10000);
+    expect(frameId(actor)).toBe('E1');
+    expect(actor.getSnapshot().context.diashow.ENTITAET).toEqual({ intervalMs: 2000, status: 'PAUSIERT' });
+
+    // Resuming starts a full interval
+    actor.send({ type: 'DIASHOW_STARTEN' });
+    clock.increment(2000);
+    expect(frameId(actor)).toBe('E2');
+
+    actor.send({ type: 'DIASHOW_STOPPEN' });
+    clock.increment(10000);
+    expect(frameId(actor)).toBe('E2');
+    expect(actor.getSnapshot().can({ type: 'DIASHOW_STARTEN' })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'DIASHOW_PAUSIEREN' })).toBe(false);
+  });
+
+  it('should pause during NotfallModus and resume afterwards', () => {
+    const { actor, clock } = startActor();
+    actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 1000 });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1', 'N2'] });
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+
+    advance(clock, 1000, 5);
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(0);
+    expect(frameId(actor)).toBe('N1');
+
+    actor.send({ type: 'SCHLIESSEN' });
+    expect(frameId(actor)).toBe('E1');
+    clock.increment(1000);
+    expect(frameId(actor)).toBe('E2');
+  });
+
+  it('should keep a separate slideshow per list that only runs while the list is displayed', () => {
+    const { actor, clock } = startActor('WRAP');
+    actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 1000 });
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ALLGEMEIN', list: ['A1', 'A2'], navigation: 'WRAP' });
+    actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 3000 });
+
+    clock.increment(3000);
+    expect(frameId(actor)).toBe('A2');
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(0);
+
+    // Loading a new list ends its slideshow, the slideshow of the other list is kept
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ALLGEMEIN', list: ['A3', 'A4'] });
+    expect(actor.getSnapshot().context.diashow).toEqual({ ENTITAET: { intervalMs: 1000, status: 'LAEUFT' } });
+    clock.increment(3000);
+    expect(frameId(actor)).toBe('A3');
+  });
+
+  it('should reject a slideshow without an interval or with less than two frames', () => {
+    const { actor } = startActor();
+    expect(actor.getSnapshot().can({ type: 'DIASHOW_STARTEN' })).toBe(false);
+
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ALLGEMEIN', list: ['A1'] });
+    actor.send({ type: 'DIASHOW_STARTEN', intervalMs: 1000 });
+    expect(actor.getSnapshot().context.diashow).toEqual({});
+  });
+});
+
+describe('Emergency queue', () => {
+  // Starts in ArbeitsModus with an accepted emergency
+  const startEmergency = (emergency: Partial<Extract<FrameEvent, { type: 'NOTFALL_EMPFANGEN' }>> = {}) => {
+    const actor = createActor(frameMachine).start();
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['E1', 'E2'] });
+    actor.send({ type: 'NAECHSTER_FRAME' });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1', 'N2'], ...emergency });
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    return actor;
+  };
+
+  it('should queue emergencies with the same or a lower priority without interrupting the displayed one', () => {
+    const actor = startEmergency({ id: 'BRAND', priority: 2 });
+    actor.send({ type: 'NAECHSTER_FRAME' });
+
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['W1'], id: 'WASSER', priority: 1 });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['S1'], id: 'STROM', priority: 2 });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['X1'] });
+
+    const { value, context } = actor.getSnapshot();
+    expect(value).toEqual({ NotfallModus: 'Anzeigen' });
+    expect(context.aktiverNotfall).toEqual({ id: 'BRAND', priority: 2 });
+    expect(context.aktuellerFrame.id).toBe('N2');
+    expect(context.notfallWarteschlange.map((notfall) => notfall.id)).toEqual(['STROM', 'WASSER', 'NOTFALL-4']);
+  });
+
+  it('should preempt lower priorities and resume them at their frame afterwards', () => {
+    const actor = startEmergency({ id: 'WASSER' });
+    actor.send({ type: 'NAECHSTER_FRAME' });
+
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['B1'], id: 'BRAND', priority: 5 });
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Bestaetigen' });
+    expect(actor.getSnapshot().context.aktiverNotfall).toEqual({ id: 'BRAND', priority: 5 });
+    expect(actor.getSnapshot().context.notfallWarteschlange).toEqual([
+      { id: 'WASSER', priority: 0, list: [{ id: 'N1', title: 'N1' }, { id: 'N2', title: 'N2' }], navigation: 'STOP', index: 1 },
+    ]);
+
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('B1');
+
+    // SCHLIESSEN returns to the pending emergency, which has to be confirmed again
+    actor.send({ type: 'SCHLIESSEN' });
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Bestaetigen' });
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    expect(actor.getSnapshot().context.aktiverNotfall).toEqual({ id: 'WASSER', priority: 0 });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('N2');
+
+    // Without pending emergencies SCHLIESSEN falls back to the source state
+    actor.send({ type: 'SCHLIESSEN' });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Entitaet' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E2');
+    expect(actor.getSnapshot().context.aktiverNotfall).toBeNull();
+  });
+
+  it('should replace an emergency with the same ID', () => {
+    const actor = startEmergency({ id: 'BRAND' });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['W1'], id: 'WASSER' });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['W2'], id: 'WASSER' });
+    expect(actor.getSnapshot().context.notfallWarteschlange.map((notfall) => notfall.list[0].id)).toEqual(['W2']);
+
+    // An update of the displayed emergency restarts its confirmation
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['B2'], id: 'BRAND' });
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Bestaetigen' });
+    expect(actor.getSnapshot().context.notfallListe.map((frame) => frame.id)).toEqual(['B2']);
+    expect(actor.getSnapshot().context.notfallWarteschlange.map((notfall) => notfall.id)).toEqual(['WASSER']);
+  });
+
+  it('should show the next pending emergency when the displayed one is rejected', () => {
+    const actor = createActor(frameMachine).start();
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1'], id: 'A' });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N2'], id: 'B' });
+
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: false });
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Bestaetigen' });
+    expect(actor.getSnapshot().context.aktiverNotfall?.id).toBe('B');
+
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: false });
+    expect(actor.getSnapshot().value).toBe('Inaktiv');
+    expect(actor.getSnapshot().context.aktiverNotfall).toBeNull();
+  });
+});
+
+describe('Emergency confirmation timeout', () => {
+  // A machine whose deadlines follow the simulated clock
+  const createTimedActor = (clock: SimulatedClock, snapshot?: Snapshot<unknown>) =>
+    createActor(createFrameMachine(undefined, () => clock.now()), { clock, snapshot });
+
+  // Receives an emergency with a confirmation timeout of 10 seconds
+  const startEmergency = (onTimeout?: 'AUTO_ACCEPT' | 'REPROMPT' | 'ESCALATE') => {
+    const clock = new SimulatedClock();
+    const actor = createTimedActor(clock).start();
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1'], timeoutMs: 10000, onTimeout });
+    return { actor, clock };
+  };
+
+  it('should accept the emergency automatically after the timeout', () => {
+    const { actor, clock } = startEmergency('AUTO_ACCEPT');
+    expect(actor.getSnapshot().context.bestaetigung).toMatchObject({ erinnerungen: 0, eskaliert: false });
+    // The deadline is a time of the simulated clock, not of the wall clock
+    expect(actor.getSnapshot().context.bestaetigung!.frist).toBe(10000);
+
+    clock.increment(10000);
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Anzeigen' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('N1');
+    expect(actor.getSnapshot().context.bestaetigung).toBeNull();
+  });
+
+  it('should request the confirmation again after every timeout', () => {
+    const { actor, clock } = startEmergency('REPROMPT');
+    clock.increment(10000);
+    clock.increment(10000);
+
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Bestaetigen' });
+    expect(actor.getSnapshot().context.bestaetigung).toEqual({ frist: 30000, erinnerungen: 2, eskaliert: false });
+  });
+
+  it('should escalate once and keep waiting for the confirmation (default policy)', () => {
+    const { actor, clock } = startEmergency();
+    expect(actor.getSnapshot().context.aktiverNotfall).toEqual({ id: 'NOTFALL-1', priority: 0, timeoutMs: 10000, onTimeout: 'ESCALATE' });
+
+    clock.increment(10000);
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Bestaetigen' });
+    expect(actor.getSnapshot().context.bestaetigung).toEqual({ frist: null, erinnerungen: 0, eskaliert: true });
+
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Anzeigen' });
+    expect(actor.getSnapshot().context.bestaetigung).toBeNull();
+  });
+
+  it('should cancel the timeout when the user answers in time', () => {
+    const { actor, clock } = startEmergency('REPROMPT');
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+
+    clock.increment(20000);
+    expect(actor.getSnapshot().value).toEqual({ NotfallModus: 'Anzeigen' });
+    expect(actor.getSnapshot().context.bestaetigung).toBeNull();
+  });
+
+  it('should schedule the timeout again with TIMER_FORTSETZEN after a restore', () => {
+    const { actor } = startEmergency('AUTO_ACCEPT');
+    const clock = new SimulatedClock();
+    const restored = createTimedActor(clock, actor.getPersistedSnapshot()).start();
+    actor.stop();
+
+    // Without TIMER_FORTSETZEN the restored Actor has no timer
+    clock.increment(10000);
+    expect(restored.getSnapshot().value).toEqual({ NotfallModus: 'Bestaetigen' });
+
+    restored.send({ type: 'TIMER_FORTSETZEN' });
+    clock.increment(10000);
+    expect(restored.getSnapshot().value).toEqual({ NotfallModus: 'Anzeigen' });
+  });
+});
+
+// ---------------------------------------------------------
+// Incremental list editing (FRAMES_ANHAENGEN, FRAMES_EINFUEGEN, FRAME_ENTFERNEN, FRAME_VERSCHIEBEN)
+// ---------------------------------------------------------
+describe('Incremental list editing', () => {
+  // Loads E1..E5 and shows E3
+  const startActor = () => {
+    const actor = createActor(frameMachine).start();
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ENTITAET', list: ['E1', 'E2', 'E3', 'E4', 'E5'] });
+    actor.send({ type: 'SPRINGE_ZU_INDEX', index: 2 });
+    return actor;
+  };
+  const ids = (context: FrameContext) => context.entitaetListe.map((frame) => frame.id);
+
+  it('should append and insert frames without losing the position', () => {
+    const actor = startActor();
+
+    actor.send({ type: 'FRAMES_ANHAENGEN', context: 'ENTITAET', list: ['E6', { id: 'E7', title: 'Seven' }] });
+    expect(ids(actor.getSnapshot().context)).toEqual(['E1', 'E2', 'E3', 'E4', 'E5', 'E6', 'E7']);
+    expect(actor.getSnapshot().context.entitaetListe[6]).toEqual({ id: 'E7', title: 'Seven' });
+
+    // Inserted at the position of the current frame: the current frame moves back
+    actor.send({ type: 'FRAMES_EINFUEGEN', context: 'ENTITAET', index: 2, list: ['X1', 'X2'] });
+    expect(ids(actor.getSnapshot().context)).toEqual(['E1', 'E2', 'X1', 'X2', 'E3', 'E4', 'E5', 'E6', 'E7']);
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(4);
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E3');
+
+    // Inserted after the current frame: the index stays
+    actor.send({ type: 'FRAMES_EINFUEGEN', context: 'ENTITAET', index: 5, list: ['X3'] });
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(4);
+
+    // Positions beyond the end and empty lists are rejected
+    expect(actor.getSnapshot().can({ type: 'FRAMES_EINFUEGEN', context: 'ENTITAET', index: 11, list: ['X4'] })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'FRAMES_ANHAENGEN', context: 'ENTITAET', list: [] })).toBe(false);
+  });
+
+  it('should remove frames and replace a removed current frame', () => {
+    const actor = startActor();
+
+    actor.send({ type: 'FRAME_ENTFERNEN', context: 'ENTITAET', frameId: 'E1' });
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(1);
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E3');
+
+    // The following frame replaces the removed current frame
+    actor.send({ type: 'FRAME_ENTFERNEN', context: 'ENTITAET', frameId: 'E3' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E4');
+
+    // At the end of the list the previous frame replaces it
+    actor.send({ type: 'LETZTER_FRAME' });
+    actor.send({ type: 'FRAME_ENTFERNEN', context: 'ENTITAET', frameId: 'E5' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E4');
+
+    ['E2', 'E4'].forEach((frameId) => actor.send({ type: 'FRAME_ENTFERNEN', context: 'ENTITAET', frameId }));
+    expect(actor.getSnapshot().context.entitaetListe).toEqual([]);
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(0);
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('LEERER_FRAME');
+
+    expect(actor.getSnapshot().can({ type: 'FRAME_ENTFERNEN', context: 'ENTITAET', frameId: 'E1' })).toBe(false);
+
+    // Appending to the empty list shows the new frame
+    actor.send({ type: 'FRAMES_ANHAENGEN', context: 'ENTITAET', list: ['E9'] });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E9');
+  });
+
+  it('should move frames and keep the index on the current frame', () => {
+    const actor = startActor();
+
+    actor.send({ type: 'FRAME_VERSCHIEBEN', context: 'ENTITAET', frameId: 'E1', toIndex: 4 });
+    expect(ids(actor.getSnapshot().context)).toEqual(['E2', 'E3', 'E4', 'E5', 'E1']);
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(1);
+
+    actor.send({ type: 'FRAME_VERSCHIEBEN', context: 'ENTITAET', frameId: 'E5', toIndex: 0 });
+    expect(ids(actor.getSnapshot().context)).toEqual(['E5', 'E2', 'E3', 'E4', 'E1']);
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(2);
+
+    // The current frame itself is followed to its new position
+    actor.send({ type: 'FRAME_VERSCHIEBEN', context: 'ENTITAET', frameId: 'E3', toIndex: 4 });
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(4);
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('E3');
+
+    expect(actor.getSnapshot().can({ type: 'FRAME_VERSCHIEBEN', context: 'ENTITAET', frameId: 'E3', toIndex: 5 })).toBe(false);
+    expect(actor.getSnapshot().can({ type: 'FRAME_VERSCHIEBEN', context: 'ENTITAET', frameId: 'X', toIndex: 0 })).toBe(false);
+  });
+
+  it('should edit lists that are not displayed without changing the displayed frame', () => {
+    const actor = startActor();
+    actor.send({ type: 'LADE_NEUE_LISTE', context: 'ALLGEMEIN', list: ['A1', 'A2'] });
+    actor.send({ type: 'NOTFALL_EMPFANGEN', list: ['N1'] });
+
+    actor.send({ type: 'FRAME_ENTFERNEN', context: 'ENTITAET', frameId: 'E1' });
+    actor.send({ type: 'FRAMES_EINFUEGEN', context: 'ALLGEMEIN', index: 0, list: ['A0'] });
+    expect(actor.getSnapshot().context.aktuellerFrame).toBe(BESTAETIGUNG_FRAME);
+
+    // Back in ArbeitsModus the edited list is shown at the kept position
+    actor.send({ type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    actor.send({ type: 'SCHLIESSEN' });
+    expect(actor.getSnapshot().value).toEqual({ ArbeitsModus: 'Allgemein' });
+    expect(actor.getSnapshot().context.aktuellerFrame.id).toBe('A1');
+    expect(actor.getSnapshot().context.aktuellerEntitaetIndex).toBe(1);
+  });
+});
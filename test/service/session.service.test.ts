@@ -1,7 +1,10 @@
 import { sessionService } from '../../src/services/session.service';
-import { CleanSnapshot, FrameEventTypes } from '../../src/core/machine.types';
+import { CleanSnapshot, FrameEvent, FrameEventTypes } from '../../src/core/machine.types';
 import { Snapshot } from 'xstate';
 import { frameMachine } from '../../src/core/frame.machine';
+import { config } from '../../src/config';
+import { EventValidationError } from '../../src/core/event.validator';
+import { InMemorySessionStore } from '../../src/services/session.store';
 
 // Define the type for the internal snapshot to ensure our mocks are correct.
 type FrameMachineSnapshot = Snapshot<typeof frameMachine>;
@@ -12,6 +15,7 @@ beforeEach(() => {
   // Accessing a private property for testing purposes is a common practice
   // to reset state between tests. This should not be done in production code.
   (sessionService as any).activeSessions.clear();
+  (sessionService as any).emergencyLog = [];
   // Clear any mocks to ensure they don't leak between tests.
   jest.clearAllMocks();
 });
@@ -137,4 +141,1022 @@ describe('SessionService - Input Validation and Edge Cases', () => {
     
     getSessionSpy2.mockRestore();
   });
-});
\ No newline at end of file
+});
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Session Expiry
+// --------------------------------------------------------------
+describe('SessionService - Session Expiry', () => {
+  const originalIdleTtl = config.sessionIdleTtlMs;
+  const originalMaxLifetime = config.sessionMaxLifetimeMs;
+
+  beforeEach(() => {
+    config.sessionIdleTtlMs = 1000;
+    config.sessionMaxLifetimeMs = 5000;
+  });
+
+  afterEach(() => {
+    config.sessionIdleTtlMs = originalIdleTtl;
+    config.sessionMaxLifetimeMs = originalMaxLifetime;
+    sessionService.stopSweeper();
+    jest.useRealTimers();
+  });
+
+  // Test: the snapshot exposes the last activity and the idle expiry.
+  it('should expose lastActivityAt and expiresAt in the snapshot', () => {
+    const snapshot = sessionService.createSession('lease-1');
+    const lastActivity = Date.parse(snapshot.lastActivityAt);
+
+    expect(Date.parse(snapshot.expiresAt!)).toBe(lastActivity + 1000);
+  });
+
+  // Test: expiresAt is null when neither an idle TTL nor a max lifetime is configured.
+  it('should never expire sessions when expiry is disabled', () => {
+    config.sessionIdleTtlMs = 0;
+    config.sessionMaxLifetimeMs = 0;
+    const snapshot = sessionService.createSession('lease-2');
+
+    expect(snapshot.expiresAt).toBeNull();
+    expect(sessionService.sweepExpiredSessions(Date.now() + 10 ** 9)).toEqual([]);
+  });
+
+  // Test: idle sessions are removed by the sweeper, active ones are kept.
+  it('should remove only idle sessions and renew the lease on every event', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('idle');
+    sessionService.createSession('active');
+
+    jest.setSystemTime(800);
+    sessionService.sendEvent('active', { type: 'LADE_NEUE_LISTE', list: ['E1'], context: 'ENTITAET' });
+
+    expect(sessionService.sweepExpiredSessions(1000)).toEqual(['idle']);
+    expect(sessionService.getSession('idle')).toBeUndefined();
+    expect(sessionService.getSession('active')).toBeDefined();
+  });
+
+  // Test: the lease can be extended, but not beyond the max lifetime.
+  it('should extend the lease with a new idle TTL but never beyond the max lifetime', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('lease-3');
+
+    jest.setSystemTime(900);
+    const extended = sessionService.extendLease('lease-3', 3000);
+    expect(extended.expiresAt).toBe(new Date(3900).toISOString());
+
+    jest.setSystemTime(4000);
+    const capped = sessionService.extendLease('lease-3');
+    expect(capped.expiresAt).toBe(new Date(5000).toISOString());
+    expect(sessionService.sweepExpiredSessions(5000)).toEqual(['lease-3']);
+  });
+
+  // Test: invalid lease requests are rejected.
+  it('should reject invalid lease extensions', () => {
+    sessionService.createSession('lease-4');
+    expect(() => sessionService.extendLease('lease-4', -1)).toThrow('Invalid input');
+    expect(() => sessionService.extendLease('missing')).toThrow("Session with ID 'missing' not found.");
+  });
+
+  // Test: the background sweeper runs periodically.
+  it('should sweep expired sessions periodically when the sweeper is started', () => {
+    jest.useFakeTimers({ now: 0 });
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    sessionService.createSession('swept');
+    sessionService.startSweeper(500);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(sessionService.getSession('swept')).toBeUndefined();
+    logSpy.mockRestore();
+  });
+
+  // Test: the frame changes of a running slideshow are neither activity nor persisted, only the lease extension keeps it alive.
+  it('should expire a session that only runs its slideshow unless the lease is extended', () => {
+    jest.useFakeTimers({ now: 0 });
+    const store = new InMemorySessionStore();
+    sessionService.useStore(store);
+    sessionService.createSession('lease-5');
+    sessionService.createSession('lease-6');
+    for (const sessionId of ['lease-5', 'lease-6']) {
+      sessionService.sendEvent(sessionId, { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET', navigation: 'WRAP' });
+      sessionService.sendEvent(sessionId, { type: FrameEventTypes.DIASHOW_STARTEN, intervalMs: 1000 });
+    }
+    const saveSpy = jest.spyOn(store, 'save');
+
+    jest.advanceTimersByTime(900);
+    sessionService.extendLease('lease-6');
+    jest.advanceTimersByTime(3000);
+
+    expect(sessionService.getSessionState('lease-5').currentFrame).toBe('E2');
+    expect(sessionService.getSessionState('lease-5').lastActivityAt).toBe(new Date(0).toISOString());
+    expect(saveSpy).toHaveBeenCalledTimes(1);
+    expect(sessionService.sweepExpiredSessions(1500)).toEqual(['lease-5']);
+    sessionService.useStore(undefined);
+    sessionService.removeSession('lease-6');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Event History
+// --------------------------------------------------------------
+describe('SessionService - Event History', () => {
+  const originalHistoryLimit = config.sessionHistoryLimit;
+
+  afterEach(() => {
+    config.sessionHistoryLimit = originalHistoryLimit;
+    jest.useRealTimers();
+  });
+
+  // Test: every event is recorded with payload, states, frames and transition flag.
+  it('should record every event with states before/after and whether it transitioned', () => {
+    sessionService.createSession('history-1');
+    sessionService.sendEvent('history-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET' });
+    sessionService.sendEvent('history-1', { type: FrameEventTypes.NAECHSTER_FRAME });
+    sessionService.sendEvent('history-1', { type: FrameEventTypes.NAECHSTER_FRAME }); // end of list: ignored
+
+    const history = sessionService.getHistory('history-1');
+
+    expect(history).toHaveLength(3);
+    expect(history[0]).toMatchObject({
+      seq: 1,
+      event: { type: 'LADE_NEUE_LISTE', list: ['E1', 'E2'], context: 'ENTITAET' },
+      stateBefore: 'Inaktiv',
+      stateAfter: { ArbeitsModus: 'Entitaet' },
+      frameBefore: 'LEERER_FRAME',
+      frameAfter: 'E1',
+      transitioned: true,
+    });
+    expect(history[1]).toMatchObject({ seq: 2, frameBefore: 'E1', frameAfter: 'E2', transitioned: true });
+    expect(history[2]).toMatchObject({ seq: 3, frameBefore: 'E2', frameAfter: 'E2', transitioned: false });
+  });
+
+  // Test: the history is bounded per session.
+  it('should keep only the configured number of most recent entries', () => {
+    config.sessionHistoryLimit = 2;
+    sessionService.createSession('history-2');
+    sessionService.sendEvent('history-2', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2', 'E3'], context: 'ENTITAET' });
+    sessionService.sendEvent('history-2', { type: FrameEventTypes.NAECHSTER_FRAME });
+    sessionService.sendEvent('history-2', { type: FrameEventTypes.NAECHSTER_FRAME });
+
+    expect(sessionService.getHistory('history-2').map((item) => item.seq)).toEqual([2, 3]);
+  });
+
+  // Test: limit and since filter the history.
+  it('should filter the history by limit and since', () => {
+    jest.useFakeTimers({ now: 1000 });
+    sessionService.createSession('history-3');
+    sessionService.sendEvent('history-3', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2', 'E3'], context: 'ENTITAET' });
+    jest.setSystemTime(2000);
+    sessionService.sendEvent('history-3', { type: FrameEventTypes.NAECHSTER_FRAME });
+    jest.setSystemTime(3000);
+    sessionService.sendEvent('history-3', { type: FrameEventTypes.NAECHSTER_FRAME });
+
+    expect(sessionService.getHistory('history-3', { since: 1000 }).map((item) => item.seq)).toEqual([2, 3]);
+    expect(sessionService.getHistory('history-3', { limit: 1 }).map((item) => item.seq)).toEqual([3]);
+    expect(sessionService.getHistory('history-3', { since: 1500, limit: 5 }).map((item) => item.seq)).toEqual([2, 3]);
+    expect(() => sessionService.getHistory('missing')).toThrow("Session with ID 'missing' not found.");
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Undo / Redo
+// --------------------------------------------------------------
+describe('SessionService - Undo / Redo', () => {
+  const originalUndoLimit = config.sessionUndoLimit;
+
+  afterEach(() => {
+    config.sessionUndoLimit = originalUndoLimit;
+  });
+
+  // Prepares a session that was accidentally reset after navigating in a list.
+  const createResetSession = (sessionId: string) => {
+    sessionService.createSession(sessionId);
+    sessionService.sendEvent(sessionId, { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2', 'E3'], context: 'ENTITAET' });
+    sessionService.sendEvent(sessionId, { type: FrameEventTypes.NAECHSTER_FRAME });
+    sessionService.sendEvent(sessionId, { type: FrameEventTypes.NAECHSTER_FRAME }); // E3
+    sessionService.sendEvent(sessionId, { type: FrameEventTypes.NAECHSTER_FRAME }); // ignored, not undoable
+    sessionService.sendEvent(sessionId, { type: FrameEventTypes.ZURUCKSETZEN });
+  };
+
+  // Test: an accidental reset can be undone and the position is restored.
+  it('should restore the position before an accidental ZURUCKSETZEN', () => {
+    createResetSession('undo-1');
+
+    const restored = sessionService.undo('undo-1');
+
+    expect(restored.currentState).toEqual({ ArbeitsModus: 'Entitaet' });
+    expect(restored.currentFrame).toBe('E3');
+    expect(restored.context.aktuellerEntitaetIndex).toBe(2);
+
+    // The restored Actor keeps working
+    expect(sessionService.sendEvent('undo-1', { type: FrameEventTypes.VORHERIGER_FRAME }).currentFrame).toBe('E2');
+  });
+
+  // Test: several steps and a specific history entry can be undone.
+  it('should step back N events or to a specific history entry', () => {
+    createResetSession('undo-2');
+    expect(sessionService.undo('undo-2', { steps: 2 }).currentFrame).toBe('E2');
+
+    createResetSession('undo-3');
+    // History entry 1 is the LADE_NEUE_LISTE event, undoing it returns to 'Inaktiv'
+    expect(sessionService.undo('undo-3', { toSeq: 1 }).currentState).toBe('Inaktiv');
+  });
+
+  // Test: undo is recorded in the history and can be redone.
+  it('should record the undo and allow to redo it until a new event is sent', () => {
+    createResetSession('undo-4');
+    sessionService.undo('undo-4', { steps: 2 });
+
+    const lastEntry = sessionService.getHistory('undo-4', { limit: 1 })[0];
+    expect(lastEntry).toMatchObject({ event: { type: 'UNDO', steps: 2 }, frameBefore: 'LEERER_FRAME', frameAfter: 'E2' });
+
+    expect(sessionService.redo('undo-4').currentFrame).toBe('E3');
+    expect(sessionService.redo('undo-4').currentState).toBe('Inaktiv');
+    expect(() => sessionService.redo('undo-4')).toThrow('Cannot redo 1 step(s), only 0 available.');
+
+    // A new event discards the redo stack
+    sessionService.undo('undo-4');
+    sessionService.sendEvent('undo-4', { type: FrameEventTypes.VORHERIGER_FRAME });
+    expect(() => sessionService.redo('undo-4')).toThrow('only 0 available');
+  });
+
+  // Test: the number of undoable steps is bounded.
+  it('should keep only the configured number of undo steps', () => {
+    config.sessionUndoLimit = 2;
+    createResetSession('undo-5');
+
+    expect(() => sessionService.undo('undo-5', { steps: 3 })).toThrow('Cannot undo 3 step(s), only 2 available.');
+    expect(() => sessionService.undo('undo-5', { toSeq: 1 })).toThrow('not available for undo');
+    expect(sessionService.undo('undo-5', { steps: 2 }).currentFrame).toBe('E2');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Replay
+// --------------------------------------------------------------
+describe('SessionService - Replay', () => {
+
+  // Test: the events are applied in order and every intermediate snapshot is returned.
+  it('should rebuild a session from an event log and return every intermediate snapshot', () => {
+    const result = sessionService.replaySession('replay-1', [
+      { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET' },
+      { type: FrameEventTypes.NAECHSTER_FRAME },
+      { type: FrameEventTypes.NAECHSTER_FRAME },
+      { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'] },
+    ]);
+
+    expect(result.steps.map((step) => step.snapshot.currentFrame)).toEqual(['E1', 'E2', 'E2', 'BESTAETIGUNG_FRAME']);
+    expect(result.steps.map((step) => step.transitioned)).toEqual([true, true, false, true]);
+    expect(result.cleanSnapshot.currentState).toEqual({ NotfallModus: 'Bestaetigen' });
+    expect(sessionService.getSessionState('replay-1')).toEqual(result.cleanSnapshot);
+
+    // The replayed events are part of the history and the session keeps working
+    expect(sessionService.getHistory('replay-1')).toHaveLength(4);
+    expect(sessionService.sendEvent('replay-1', { type: FrameEventTypes.SCHLIESSEN }).currentFrame).toBe('E2');
+  });
+
+  // Test: replaying is deterministic and replaces an existing session.
+  it('should start from a fresh machine and replace an existing session', () => {
+    sessionService.createSession('replay-2');
+    sessionService.sendEvent('replay-2', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['OLD'], context: 'ALLGEMEIN' });
+    const events: FrameEvent[] = [{ type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1'], context: 'ENTITAET' }];
+
+    const first = sessionService.replaySession('replay-2', events);
+    const second = sessionService.replaySession('replay-2', events);
+
+    expect(first.cleanSnapshot.context).toEqual(second.cleanSnapshot.context);
+    expect(second.cleanSnapshot.context.allgemeineListe).toEqual([]);
+  });
+
+  // Test: the replaced session keeps its metadata and the records of its emergencies.
+  it('should keep the metadata and the emergency records of a replaced session', () => {
+    sessionService.createSession('replay-4', { owner: 'team-a', device: 'tv', location: 'berlin', tags: ['lobby'] });
+    sessionService.sendEvent('replay-4', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], id: 'A' });
+    sessionService.sendEvent('replay-4', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true, user: 'dispatcher-12' });
+
+    const result = sessionService.replaySession('replay-4', [{ type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1'], context: 'ENTITAET' }]);
+
+    expect(result.cleanSnapshot.metadata).toEqual({ owner: 'team-a', device: 'tv', location: 'berlin', tags: ['lobby'] });
+    expect(sessionService.getAllSessions({ tag: 'lobby' }).map((session) => session.sessionId)).toEqual(['replay-4']);
+    expect(sessionService.getEmergencies('replay-4')).toEqual([expect.objectContaining({ id: 'A', outcome: 'ACCEPTED' })]);
+  });
+
+  // Test: a replayed session is rebuilt in place, observers see a new snapshot instead of a deletion.
+  it('should notify the new snapshot instead of deleting a replayed session', () => {
+    sessionService.createSession('replay-5');
+    sessionService.sendEvent('replay-5', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['OLD'], context: 'ALLGEMEIN' });
+    const notifications: any[] = [];
+    const unsubscribe = sessionService.subscribe((n) => notifications.push(n));
+
+    sessionService.replaySession('replay-5', [{ type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1'], context: 'ENTITAET' }]);
+    unsubscribe();
+
+    expect(notifications.map((n) => n.type)).toEqual(['SESSION_SNAPSHOT']);
+    expect(sessionService.getHistory('replay-5').map((item) => item.event.type)).toEqual([FrameEventTypes.LADE_NEUE_LISTE]);
+    expect(() => sessionService.undo('replay-5', { steps: 2 })).toThrow('only 1 available');
+  });
+
+  // Test: invalid event logs are rejected before anything is changed.
+  it('should reject invalid events without touching the existing session', () => {
+    sessionService.createSession('replay-3');
+
+    expect(() => sessionService.replaySession('replay-3', [
+      { type: FrameEventTypes.NAECHSTER_FRAME },
+      { type: 'UNKNOWN' } as any,
+    ])).toThrow('event at index 1 is not a valid event');
+    expect(() => sessionService.replaySession('replay-3', {} as any)).toThrow('events must be an array');
+    expect(sessionService.getHistory('replay-3')).toHaveLength(0);
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Atomic Batch
+// --------------------------------------------------------------
+describe('SessionService - Atomic Batch', () => {
+
+  // Test: all events are applied and observers only see the final snapshot.
+  it('should apply all events and publish only the final snapshot', () => {
+    sessionService.createSession('batch-1');
+    const notifications: any[] = [];
+    const unsubscribe = sessionService.subscribe((n) => notifications.push(n));
+
+    const result = sessionService.sendEvents('batch-1', [
+      { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2', 'E3'], context: 'ENTITAET' },
+      { type: FrameEventTypes.SUCHE_FRAME, frameName: 'E3' },
+    ]);
+    unsubscribe();
+
+    expect(result.applied).toBe(true);
+    expect(result.cleanSnapshot.currentFrame).toBe('E3');
+    expect(result.results.map((r) => r.status)).toEqual(['applied', 'applied']);
+    expect(result.results[0].snapshot?.currentFrame).toBe('E1');
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].snapshot.currentFrame).toBe('E3');
+    expect(sessionService.getHistory('batch-1')).toHaveLength(2);
+  });
+
+  // Test: a rejected event rolls back the whole batch.
+  it('should roll back to the prior snapshot if an event is rejected', () => {
+    sessionService.createSession('batch-2');
+    sessionService.sendEvent('batch-2', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['A1'], context: 'ALLGEMEIN' });
+    const before = sessionService.getSessionState('batch-2');
+
+    const result = sessionService.sendEvents('batch-2', [
+      { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET' },
+      { type: FrameEventTypes.SUCHE_FRAME, frameName: 'MISSING' },
+      { type: FrameEventTypes.NAECHSTER_FRAME },
+    ]);
+
+    expect(result.applied).toBe(false);
+    expect(result.results.map((r) => r.status)).toEqual(['rolled_back', 'rejected', 'skipped']);
+    expect(result.cleanSnapshot).toEqual(before);
+    expect(sessionService.getSessionState('batch-2')).toEqual(before);
+    expect(sessionService.getHistory('batch-2')).toHaveLength(1);
+  });
+
+  // Test: handled events without effect do not roll back the batch.
+  it('should apply events that are handled but change nothing', () => {
+    sessionService.createSession('batch-4');
+
+    const result = sessionService.sendEvents('batch-4', [
+      { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['A', 'B'], context: 'ENTITAET' },
+      { type: FrameEventTypes.SUCHE_FRAME, frameName: 'A' },
+      { type: FrameEventTypes.ERSTER_FRAME },
+    ]);
+
+    expect(result.applied).toBe(true);
+    expect(result.results.map((r) => r.status)).toEqual(['applied', 'applied', 'applied']);
+    expect(result.cleanSnapshot.currentFrame).toBe('A');
+    expect(sessionService.getHistory('batch-4').map((entry) => entry.transitioned)).toEqual([true, false, false]);
+
+    const blocked = sessionService.sendEvents('batch-4', [{ type: FrameEventTypes.VORHERIGER_FRAME }]);
+    expect(blocked.applied).toBe(false);
+    expect(blocked.results[0].status).toBe('rejected');
+  });
+
+  // Test: invalid events reject the batch before anything is evaluated.
+  it('should reject invalid batches', () => {
+    sessionService.createSession('batch-3');
+    expect(() => sessionService.sendEvents('batch-3', [])).toThrow('non-empty array');
+    expect(() => sessionService.sendEvents('batch-3', [{ type: 'FOO' } as any])).toThrow('event at index 0');
+    expect(() => sessionService.sendEvents('missing', [{ type: FrameEventTypes.NAECHSTER_FRAME }])).toThrow("Session with ID 'missing' not found.");
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Broadcast
+// --------------------------------------------------------------
+describe('SessionService - Broadcast', () => {
+  const emergency: FrameEvent = { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1', 'N2'] };
+
+  // Test: the emergency reaches every session, final sessions are reported.
+  it('should send an emergency to all sessions and report final sessions', () => {
+    sessionService.createSession('site-a-1');
+    sessionService.createSession('site-a-2');
+    sessionService.createSession('site-a-3');
+    sessionService.sendEvent('site-a-3', { type: FrameEventTypes.AUSSCHALTEN });
+
+    const result = sessionService.broadcastEvent(emergency);
+
+    expect(result.count).toBe(3);
+    expect(result.summary).toEqual({ delivered: 2, ignored: 0, final: 1, unreachable: 0, not_found: 0 });
+    expect(sessionService.getSessionState('site-a-1').currentState).toEqual({ NotfallModus: 'Bestaetigen' });
+    expect(result.results.find((r) => r.sessionId === 'site-a-3')?.status).toBe('final');
+  });
+
+  // Test: the selector criteria restrict the receivers.
+  it('should select sessions by tag, state, ID prefix and IDs', () => {
+    sessionService.createSession('lobby-1', { tags: ['site-berlin', 'lobby'] });
+    sessionService.createSession('lobby-2', { tags: ['site-hamburg'] });
+    sessionService.createSession('ward-1', { tags: ['site-berlin'] });
+    sessionService.sendEvent('ward-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1'], context: 'ENTITAET' });
+
+    const byTag = sessionService.broadcastEvent({ type: FrameEventTypes.ZURUCKSETZEN }, { tag: 'site-berlin' });
+    expect(byTag.results.map((r) => r.sessionId)).toEqual(['lobby-1', 'ward-1']);
+    expect(byTag.results.map((r) => r.status)).toEqual(['ignored', 'delivered']); // lobby-1 is already reset
+
+    sessionService.sendEvent('ward-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1'], context: 'ENTITAET' });
+    const byState = sessionService.broadcastEvent(emergency, { state: 'ArbeitsModus.Entitaet' });
+    expect(byState.results.map((r) => r.sessionId)).toEqual(['ward-1']);
+
+    const byPrefix = sessionService.broadcastEvent({ type: FrameEventTypes.NAECHSTER_FRAME }, { idPrefix: 'lobby-' });
+    expect(byPrefix.summary.ignored).toBe(2);
+
+    const byIds = sessionService.broadcastEvent(emergency, { sessionIds: ['lobby-2', 'missing'] });
+    expect(byIds.results).toEqual([
+      { sessionId: 'lobby-2', status: 'delivered', currentState: { NotfallModus: 'Bestaetigen' } },
+      { sessionId: 'missing', status: 'not_found' },
+    ]);
+  });
+
+  // Test: a failing session does not stop the broadcast.
+  it('should report unreachable sessions and continue', () => {
+    sessionService.createSession('broken');
+    sessionService.createSession('healthy');
+    jest.spyOn(sessionService.getSession('broken')!, 'send').mockImplementation(() => { throw new Error('Actor crashed'); });
+
+    const result = sessionService.broadcastEvent(emergency);
+
+    expect(result.results).toEqual([
+      { sessionId: 'broken', status: 'unreachable', error: 'Actor crashed' },
+      { sessionId: 'healthy', status: 'delivered', currentState: { NotfallModus: 'Bestaetigen' } },
+    ]);
+    expect(() => sessionService.broadcastEvent({ type: 'FOO' } as any)).toThrow('Invalid input');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Metadata & Filtered Listing
+// --------------------------------------------------------------
+describe('SessionService - Metadata & Filtered Listing', () => {
+
+  beforeEach(() => {
+    sessionService.createSession('kiosk-1', { owner: 'team-a', device: 'tablet', location: 'berlin', tags: ['lobby', 'floor-1'] });
+    sessionService.createSession('kiosk-2', { owner: 'team-b', device: 'tv', location: 'berlin', tags: ['lobby'] });
+    sessionService.createSession('kiosk-3', { owner: 'team-a', device: 'tv', location: 'hamburg' });
+    sessionService.sendEvent('kiosk-2', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['A1'], context: 'ALLGEMEIN' });
+    sessionService.sendEvent('kiosk-3', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'] });
+  });
+
+  const ids = (sessions: CleanSnapshot[]) => sessions.map((s) => s.sessionId);
+
+  // Test: the metadata is stored alongside the Actor and part of the snapshot.
+  it('should attach the metadata to the session snapshot', () => {
+    expect(sessionService.getSessionState('kiosk-1').metadata).toEqual({
+      owner: 'team-a', device: 'tablet', location: 'berlin', tags: ['lobby', 'floor-1'],
+    });
+    expect(sessionService.getSessionState('kiosk-3').metadata.tags).toEqual([]);
+  });
+
+  // Test: the listing can be filtered by tags, state, anzeigeKontext and metadata fields.
+  it('should filter sessions by tag, state, anzeigeKontext and metadata fields', () => {
+    expect(ids(sessionService.getAllSessions({ tag: 'lobby' }))).toEqual(['kiosk-1', 'kiosk-2']);
+    expect(ids(sessionService.getAllSessions({ tag: ['lobby', 'floor-1'] }))).toEqual(['kiosk-1']);
+    expect(ids(sessionService.getAllSessions({ state: 'ArbeitsModus' }))).toEqual(['kiosk-2']);
+    expect(ids(sessionService.getAllSessions({ state: 'NotfallModus.Bestaetigen' }))).toEqual(['kiosk-3']);
+    expect(ids(sessionService.getAllSessions({ anzeigeKontext: 'INAKTIV' }))).toEqual(['kiosk-1']);
+    expect(ids(sessionService.getAllSessions({ owner: 'team-a', device: 'tv' }))).toEqual(['kiosk-3']);
+    expect(ids(sessionService.getAllSessions({ location: 'berlin' }))).toEqual(['kiosk-1', 'kiosk-2']);
+    expect(ids(sessionService.getAllSessions({ state: 'Unknown.State' }))).toEqual([]);
+  });
+
+  // Test: invalid metadata is rejected.
+  it('should reject invalid metadata', () => {
+    expect(() => sessionService.createSession('bad', { tags: [''] })).toThrow('tags must be an array');
+    expect(() => sessionService.createSession('bad', { owner: 42 as any })).toThrow('owner must be a string');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Pagination, Sorting & Projection
+// --------------------------------------------------------------
+describe('SessionService - Pagination, Sorting & Projection', () => {
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1000 });
+    sessionService.createSession('c-session');
+    jest.setSystemTime(2000);
+    sessionService.createSession('a-session', { tags: ['lobby'] });
+    jest.setSystemTime(3000);
+    sessionService.createSession('b-session', { tags: ['lobby'] });
+    jest.setSystemTime(4000);
+    sessionService.sendEvent('c-session', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET' });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const ids = (sessions: Partial<CleanSnapshot>[]) => sessions.map((s) => s.sessionId);
+
+  // Test: the listing is sorted by creation time by default and by ID or last activity on request.
+  it('should sort by creation time, ID or last activity in both orders', () => {
+    expect(ids(sessionService.listSessions().sessions)).toEqual(['c-session', 'a-session', 'b-session']);
+    expect(ids(sessionService.listSessions({}, { sortBy: 'sessionId' }).sessions)).toEqual(['a-session', 'b-session', 'c-session']);
+    expect(ids(sessionService.listSessions({}, { sortBy: 'lastActivityAt', order: 'desc' }).sessions))
+      .toEqual(['c-session', 'b-session', 'a-session']);
+  });
+
+  // Test: offset pagination returns the requested slice and the total number of sessions.
+  it('should return a page by offset and limit', () => {
+    const page = sessionService.listSessions({}, { sortBy: 'sessionId', offset: 1, limit: 1 });
+    expect(page).toMatchObject({ total: 3, count: 1 });
+    expect(ids(page.sessions)).toEqual(['b-session']);
+    expect(page.nextCursor).not.toBeNull();
+
+    expect(sessionService.listSessions({}, { offset: 5 }).sessions).toEqual([]);
+  });
+
+  // Test: cursor pagination walks through all sessions and stays stable if sessions are removed.
+  it('should walk through all pages via the cursor', () => {
+    const first = sessionService.listSessions({}, { limit: 2 });
+    expect(ids(first.sessions)).toEqual(['c-session', 'a-session']);
+
+    sessionService.removeSession('a-session');
+    const second = sessionService.listSessions({}, { limit: 2, cursor: first.nextCursor! });
+    expect(ids(second.sessions)).toEqual(['b-session']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  // Test: the selector is applied before paginating.
+  it('should paginate only the sessions matching the selector', () => {
+    const page = sessionService.listSessions({ tag: 'lobby' }, { limit: 1 });
+    expect(page.total).toBe(2);
+    expect(ids(page.sessions)).toEqual(['a-session']);
+  });
+
+  // Test: only the requested fields are returned, the frame lists are left out.
+  it('should project the snapshots to the requested fields', () => {
+    const page = sessionService.listSessions({}, { sortBy: 'sessionId', fields: ['sessionId', 'currentState', 'currentFrame'] });
+    expect(page.sessions[2]).toEqual({ sessionId: 'c-session', currentState: { ArbeitsModus: 'Entitaet' }, currentFrame: 'E1' });
+    expect(page.sessions.every((s) => s.context === undefined)).toBe(true);
+  });
+
+  // Test: the remaining confirmation time can be selected, e.g. to find displays that wait for an answer.
+  it('should project the remaining confirmation time', () => {
+    sessionService.sendEvent('b-session', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], timeoutMs: 10000 });
+    jest.advanceTimersByTime(4000);
+
+    const page = sessionService.listSessions({}, { sortBy: 'sessionId', fields: ['sessionId', 'confirmationRemainingMs'] });
+    expect(page.sessions).toEqual([
+      { sessionId: 'a-session', confirmationRemainingMs: null },
+      { sessionId: 'b-session', confirmationRemainingMs: 6000 },
+      { sessionId: 'c-session', confirmationRemainingMs: null },
+    ]);
+  });
+
+  // Test: invalid fields, cursors and combinations are rejected.
+  it('should reject invalid fields and cursors', () => {
+    expect(() => sessionService.listSessions({}, { fields: ['unknown' as any] })).toThrow("field 'unknown' is not supported");
+    expect(() => sessionService.listSessions({}, { cursor: 'not-a-cursor' })).toThrow('cursor is malformed');
+    expect(() => sessionService.listSessions({}, { cursor: Buffer.from('null').toString('base64url') })).toThrow('cursor is malformed');
+    expect(() => sessionService.listSessions({}, { offset: 1, cursor: 'x' })).toThrow('either offset or cursor');
+
+    const cursor = sessionService.listSessions({}, { limit: 1 }).nextCursor!;
+    expect(() => sessionService.listSessions({}, { sortBy: 'sessionId', cursor })).toThrow('does not match the requested sort order');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Event Payload Validation
+// --------------------------------------------------------------
+describe('SessionService - Event Payload Validation', () => {
+
+  // Test: malformed payloads never reach the machine.
+  it('should reject invalid payloads without changing the session', () => {
+    sessionService.createSession('validation-1');
+
+    expect(() => sessionService.sendEvent('validation-1', { type: FrameEventTypes.LADE_NEUE_LISTE } as any))
+      .toThrow(EventValidationError);
+    expect(() => sessionService.sendEvent('validation-1', { type: FrameEventTypes.SUCHE_FRAME, frameName: '' }))
+      .toThrow('frameName: must not be empty');
+
+    expect(sessionService.getSessionState('validation-1').currentState).toBe('Inaktiv');
+    expect(sessionService.getHistory('validation-1')).toHaveLength(0);
+  });
+
+  // Test: batches, replays and broadcasts report the invalid fields of every event.
+  it('should validate the payloads of batches, replays and broadcasts', () => {
+    sessionService.createSession('validation-2');
+
+    try {
+      sessionService.sendEvents('validation-2', [
+        { type: FrameEventTypes.SUCHE_FRAME } as any,
+        { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: [1] } as any,
+      ]);
+      throw new Error('Expected an EventValidationError');
+    } catch (e) {
+      expect((e as EventValidationError).errors.map((error) => error.field)).toEqual(['events[0].frameName', 'events[1].list[0]']);
+    }
+    expect(() => sessionService.replaySession('validation-2', [{ type: FrameEventTypes.USER_BESTAETIGT_NOTFALL } as any]))
+      .toThrow('events[0].accepted: is required');
+    expect(() => sessionService.broadcastEvent({ type: FrameEventTypes.NOTFALL_EMPFANGEN } as any))
+      .toThrow('event.list: is required');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Event Outcome
+// --------------------------------------------------------------
+describe('SessionService - Event Outcome', () => {
+
+  beforeEach(() => {
+    sessionService.createSession('outcome-1');
+  });
+
+  // Test: state changes and context-only changes are reported.
+  it('should report transitions and context-only changes', () => {
+    const loaded = sessionService.processEvent('outcome-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET' });
+    expect(loaded.outcome.status).toBe('transitioned');
+    expect(loaded.outcome.reason).toContain('from Inaktiv to ArbeitsModus.Entitaet');
+    expect(loaded.cleanSnapshot.currentFrame).toBe('E1');
+
+    const next = sessionService.processEvent('outcome-1', { type: FrameEventTypes.NAECHSTER_FRAME });
+    expect(next.outcome.status).toBe('context_changed');
+    expect(next.outcome.reason).toContain('aktuellerEntitaetIndex, aktuellerFrame');
+  });
+
+  // Test: events rejected by a guard name the guard.
+  it('should report events ignored by a guard', () => {
+    sessionService.sendEvent('outcome-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1'], context: 'ENTITAET' });
+
+    const { outcome, cleanSnapshot } = sessionService.processEvent('outcome-1', { type: FrameEventTypes.NAECHSTER_FRAME });
+
+    expect(outcome.status).toBe('ignored_by_guard');
+    expect(outcome.reason).toContain('hasNextFrame');
+    expect(cleanSnapshot.currentFrame).toBe('E1');
+  });
+
+  // Test: events without a transition in the current state are reported as not handled.
+  it('should report events that are not handled in the current state', () => {
+    const { outcome } = sessionService.processEvent('outcome-1', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true });
+    expect(outcome).toEqual({ status: 'not_handled', reason: 'USER_BESTAETIGT_NOTFALL is not handled in Inaktiv.' });
+
+    sessionService.sendEvent('outcome-1', { type: FrameEventTypes.AUSSCHALTEN });
+    expect(sessionService.processEvent('outcome-1', { type: FrameEventTypes.ZURUCKSETZEN }).outcome.status).toBe('not_handled');
+  });
+
+  // Test: handled events without any effect are reported as unchanged.
+  it('should report handled events without effect as unchanged', () => {
+    sessionService.sendEvent('outcome-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1'], context: 'ENTITAET' });
+
+    const { outcome } = sessionService.processEvent('outcome-1', { type: FrameEventTypes.SUCHE_FRAME, frameName: 'missing' });
+
+    expect(outcome.status).toBe('unchanged');
+  });
+
+  // Test: SUCHE_FRAME reports whether and where the frame was found.
+  it('should report the result of SUCHE_FRAME', () => {
+    sessionService.sendEvent('outcome-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET' });
+    sessionService.sendEvent('outcome-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: [{ id: 'A1', title: 'Wetter' }], context: 'ALLGEMEIN' });
+
+    const hit = sessionService.processEvent('outcome-1', { type: FrameEventTypes.SUCHE_FRAME, frameName: 'e2', match: 'IGNORE_CASE', scope: 'ALL' });
+    expect(hit.search).toEqual({ found: true, kontext: 'ENTITAET', index: 1, frame: { id: 'E2', title: 'E2' }, matchedBy: 'id' });
+    expect(hit.outcome.status).toBe('transitioned');
+    expect(hit.cleanSnapshot.currentState).toEqual({ ArbeitsModus: 'Entitaet' });
+
+    const miss = sessionService.processEvent('outcome-1', { type: FrameEventTypes.SUCHE_FRAME, frameName: 'Verkehr', match: 'PREFIX' });
+    expect(miss.search).toEqual({ found: false });
+    expect(miss.outcome).toEqual({
+      status: 'unchanged',
+      reason: "SUCHE_FRAME found no frame matching 'Verkehr' (match: PREFIX, scope: ACTIVE).",
+    });
+
+    // Events that are not handled are not searched
+    sessionService.sendEvent('outcome-1', { type: FrameEventTypes.SCHLIESSEN });
+    expect(sessionService.processEvent('outcome-1', { type: FrameEventTypes.SUCHE_FRAME, frameName: 'E1' }).search).toBeUndefined();
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Available Events
+// --------------------------------------------------------------
+describe('SessionService - Available Events', () => {
+
+  const available = (sessionId: string) =>
+    sessionService.getAvailableEvents(sessionId).filter((event) => event.available).map((event) => event.type);
+
+  // Test: the state structure decides which events are handled.
+  it('should list the events handled in the current state', () => {
+    sessionService.createSession('available-1');
+    expect(available('available-1')).toEqual([
+      'ZURUCKSETZEN', 'AUSSCHALTEN', 'NOTFALL_EMPFANGEN', 'LADE_NEUE_LISTE', 'FRAMES_ANHAENGEN', 'FRAMES_EINFUEGEN', 'FRAME_ENTFERNEN', 'FRAME_VERSCHIEBEN',
+    ]);
+
+    sessionService.sendEvent('available-1', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'] });
+    expect(available('available-1')).toEqual([
+      'SCHLIESSEN', 'ZURUCKSETZEN', 'NOTFALL_EMPFANGEN', 'USER_BESTAETIGT_NOTFALL', 'FRAMES_ANHAENGEN', 'FRAMES_EINFUEGEN', 'FRAME_ENTFERNEN', 'FRAME_VERSCHIEBEN',
+    ]);
+
+    sessionService.sendEvent('available-1', { type: FrameEventTypes.ZURUCKSETZEN });
+    sessionService.sendEvent('available-1', { type: FrameEventTypes.AUSSCHALTEN });
+    expect(available('available-1')).toEqual([]);
+  });
+
+  // Test: payload-independent guards such as hasNextFrame and hasPreviousFrame are evaluated.
+  it('should evaluate the navigation guards at the boundaries of the list', () => {
+    sessionService.createSession('available-2');
+    sessionService.sendEvent('available-2', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2'], context: 'ENTITAET' });
+    expect(available('available-2')).toContain('NAECHSTER_FRAME');
+    expect(available('available-2')).not.toContain('VORHERIGER_FRAME');
+
+    sessionService.sendEvent('available-2', { type: FrameEventTypes.NAECHSTER_FRAME });
+    expect(available('available-2')).not.toContain('NAECHSTER_FRAME');
+    expect(available('available-2')).toContain('VORHERIGER_FRAME');
+  });
+
+  // Test: events whose guards depend on the payload are marked as such.
+  it('should mark events with payload-dependent guards', () => {
+    sessionService.createSession('available-3');
+    const events = sessionService.getAvailableEvents('available-3');
+
+    expect(events.find((event) => event.type === 'LADE_NEUE_LISTE')).toEqual({ type: 'LADE_NEUE_LISTE', available: true, payloadDependent: true });
+    expect(events.find((event) => event.type === 'NOTFALL_EMPFANGEN')).toEqual({ type: 'NOTFALL_EMPFANGEN', available: true, payloadDependent: false });
+    expect(() => sessionService.getAvailableEvents('missing')).toThrow("Session with ID 'missing' not found.");
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Slideshow
+// --------------------------------------------------------------
+describe('SessionService - Slideshow', () => {
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Test: the automatic frame changes are published to live clients.
+  it('should publish the frames of a running slideshow', () => {
+    jest.useFakeTimers({ now: 0 });
+    const frames: string[] = [];
+    const unsubscribe = sessionService.subscribe((notification) => {
+      if (notification.type === 'SESSION_SNAPSHOT') frames.push(notification.snapshot.currentFrame);
+    });
+    sessionService.createSession('diashow-1');
+    sessionService.sendEvent('diashow-1', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2', 'E3'], context: 'ENTITAET' });
+    sessionService.sendEvent('diashow-1', { type: FrameEventTypes.DIASHOW_STARTEN, intervalMs: 1000 });
+
+    jest.advanceTimersByTime(2000);
+    expect(frames.slice(-2)).toEqual(['E2', 'E3']);
+
+    // The next interval finds the end of the list and ends the slideshow
+    jest.advanceTimersByTime(1000);
+    unsubscribe();
+    expect(sessionService.getSessionState('diashow-1').context.diashow).toEqual({});
+    sessionService.removeSession('diashow-1');
+  });
+
+  // Test: timers are not part of a persisted snapshot, a restored Actor starts the running slideshow again.
+  it('should keep the slideshow running after undo', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('diashow-2');
+    sessionService.sendEvent('diashow-2', { type: FrameEventTypes.LADE_NEUE_LISTE, list: ['E1', 'E2', 'E3'], context: 'ENTITAET', navigation: 'WRAP' });
+    sessionService.sendEvent('diashow-2', { type: FrameEventTypes.DIASHOW_STARTEN, intervalMs: 1000 });
+    sessionService.sendEvent('diashow-2', { type: FrameEventTypes.LETZTER_FRAME });
+
+    expect(sessionService.undo('diashow-2').currentFrame).toBe('E1');
+    jest.advanceTimersByTime(1000);
+    expect(sessionService.getSessionState('diashow-2').currentFrame).toBe('E2');
+    sessionService.removeSession('diashow-2');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Emergency Confirmation Timeout
+// --------------------------------------------------------------
+describe('SessionService - Emergency Confirmation Timeout', () => {
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Test: the snapshot contains the time left to confirm the emergency.
+  it('should expose the remaining confirmation time in the snapshot', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('timeout-1');
+    const snapshot = sessionService.sendEvent('timeout-1', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], timeoutMs: 10000 });
+    expect(snapshot.confirmationRemainingMs).toBe(10000);
+    expect(snapshot.context.bestaetigung).toEqual({ frist: 10000, erinnerungen: 0, eskaliert: false });
+
+    jest.advanceTimersByTime(4000);
+    expect(sessionService.getSessionState('timeout-1').confirmationRemainingMs).toBe(6000);
+
+    sessionService.sendEvent('timeout-1', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true });
+    expect(sessionService.getSessionState('timeout-1').confirmationRemainingMs).toBeNull();
+    sessionService.removeSession('timeout-1');
+  });
+
+  // Test: an unconfirmed emergency with the policy ESCALATE is published once.
+  it('should publish an escalation notification', () => {
+    jest.useFakeTimers({ now: 0 });
+    const escalations: unknown[] = [];
+    const unsubscribe = sessionService.subscribe((notification) => {
+      if (notification.type === 'SESSION_ESCALATED') escalations.push(notification.notfall);
+    });
+    sessionService.createSession('timeout-2');
+    sessionService.sendEvent('timeout-2', {
+      type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], id: 'BRAND-7', priority: 3, timeoutMs: 5000, onTimeout: 'ESCALATE',
+    });
+
+    jest.advanceTimersByTime(20000);
+    unsubscribe();
+
+    expect(escalations).toEqual([{ id: 'BRAND-7', priority: 3, timeoutMs: 5000, onTimeout: 'ESCALATE' }]);
+    expect(sessionService.getSessionState('timeout-2').confirmationRemainingMs).toBeNull();
+    sessionService.removeSession('timeout-2');
+  });
+
+  // Test: a restored Actor keeps the deadline of the confirmation.
+  it('should keep the deadline after undo', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('timeout-3');
+    sessionService.sendEvent('timeout-3', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], timeoutMs: 10000, onTimeout: 'AUTO_ACCEPT' });
+    sessionService.sendEvent('timeout-3', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N2'], priority: 1, timeoutMs: 60000 });
+
+    jest.advanceTimersByTime(4000);
+    expect(sessionService.undo('timeout-3').confirmationRemainingMs).toBe(6000);
+    jest.advanceTimersByTime(6000);
+    expect(sessionService.getSessionState('timeout-3').currentState).toEqual({ NotfallModus: 'Anzeigen' });
+    sessionService.removeSession('timeout-3');
+  });
+});
+
+// --------------------------------------------------------------
+// Unit Tests for SessionService - Emergency Records
+// --------------------------------------------------------------
+describe('SessionService - Emergency Records', () => {
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Test: an answer is recorded with the user, the comment, the list shown and the confirmation time.
+  it('should record who answered an emergency and when', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('records-1');
+    sessionService.sendEvent('records-1', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1', 'N2'], id: 'BRAND-7', priority: 2 });
+    expect(sessionService.getEmergencies('records-1')).toEqual([
+      expect.objectContaining({ id: 'BRAND-7', outcome: 'PENDING', displayedAt: new Date(0).toISOString(), resolvedAt: null }),
+    ]);
+
+    jest.advanceTimersByTime(4200);
+    sessionService.sendEvent('records-1', {
+      type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true, user: 'dispatcher-12', comment: 'On my way',
+    });
+
+    expect(sessionService.getEmergencies('records-1')).toEqual([{
+      seq: expect.any(Number),
+      sessionId: 'records-1',
+      id: 'BRAND-7',
+      priority: 2,
+      list: [{ id: 'N1', title: 'N1' }, { id: 'N2', title: 'N2' }],
+      receivedAt: new Date(0).toISOString(),
+      displayedAt: new Date(0).toISOString(),
+      resolvedAt: new Date(4200).toISOString(),
+      confirmationMs: 4200,
+      outcome: 'ACCEPTED',
+      user: 'dispatcher-12',
+      comment: 'On my way',
+      reminders: 0,
+      escalated: false,
+    }]);
+    sessionService.removeSession('records-1');
+  });
+
+  // Test: queued emergencies are requested when they are displayed, rejections and resets are recorded as well.
+  it('should record rejected, queued and discarded emergencies', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('records-2');
+    sessionService.sendEvent('records-2', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'] });
+    sessionService.sendEvent('records-2', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N2'] });
+    sessionService.sendEvent('records-2', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N3'] });
+
+    jest.advanceTimersByTime(1000);
+    sessionService.sendEvent('records-2', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: false, user: 'dispatcher-12' });
+    jest.advanceTimersByTime(500);
+    sessionService.sendEvent('records-2', { type: FrameEventTypes.ZURUCKSETZEN });
+
+    const records = sessionService.getEmergencies('records-2');
+    expect(records.map(({ id, outcome, displayedAt, confirmationMs }) => ({ id, outcome, displayedAt, confirmationMs }))).toEqual([
+      { id: 'NOTFALL-1', outcome: 'REJECTED', displayedAt: new Date(0).toISOString(), confirmationMs: 1000 },
+      { id: 'NOTFALL-2', outcome: 'DISCARDED', displayedAt: new Date(1000).toISOString(), confirmationMs: null },
+      { id: 'NOTFALL-3', outcome: 'DISCARDED', displayedAt: null, confirmationMs: null },
+    ]);
+    sessionService.removeSession('records-2');
+  });
+
+  // Test: timeouts answer the emergency without a user.
+  it('should record auto-accepted and escalated emergencies', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('records-3');
+    sessionService.sendEvent('records-3', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], timeoutMs: 5000, onTimeout: 'AUTO_ACCEPT' });
+    sessionService.createSession('records-4');
+    sessionService.sendEvent('records-4', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], timeoutMs: 5000 });
+
+    jest.advanceTimersByTime(5000);
+
+    expect(sessionService.getEmergencies('records-3')).toEqual([
+      expect.objectContaining({ outcome: 'AUTO_ACCEPTED', confirmationMs: 5000, user: null }),
+    ]);
+    expect(sessionService.getEmergencies('records-4')).toEqual([
+      expect.objectContaining({ outcome: 'PENDING', escalated: true }),
+    ]);
+    sessionService.removeSession('records-3');
+    sessionService.removeSession('records-4');
+  });
+
+  // Test: the report lists the emergencies of all sessions with the number per outcome.
+  it('should report the emergencies of all sessions', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('records-5');
+    sessionService.createSession('records-6');
+    sessionService.sendEvent('records-5', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'] });
+    jest.advanceTimersByTime(1000);
+    sessionService.sendEvent('records-6', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'] });
+    jest.advanceTimersByTime(2000);
+    sessionService.sendEvent('records-5', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true });
+    sessionService.sendEvent('records-6', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true });
+
+    const report = sessionService.getEmergencyReport();
+    expect(report.count).toBe(2);
+    expect(report.emergencies.map((record) => record.sessionId)).toEqual(['records-5', 'records-6']);
+    expect(report.summary).toEqual({ PENDING: 0, ACCEPTED: 2, REJECTED: 0, AUTO_ACCEPTED: 0, REPLACED: 0, DISCARDED: 0 });
+    expect(report.averageConfirmationMs).toBe(2500);
+    expect(report.anonymousAnswers).toBe(2);
+
+    expect(sessionService.getEmergencyReport({ since: 500 }).emergencies.map((record) => record.sessionId)).toEqual(['records-6']);
+    expect(sessionService.getEmergencyReport({ outcome: 'REJECTED' }).count).toBe(0);
+    sessionService.removeSession('records-5');
+    sessionService.removeSession('records-6');
+  });
+
+  // Test: the records outlive the session, pending emergencies are discarded with it.
+  it('should keep the records of removed sessions in the report', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('records-8');
+    sessionService.sendEvent('records-8', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], id: 'A' });
+    sessionService.sendEvent('records-8', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true, user: 'dispatcher-12' });
+    sessionService.sendEvent('records-8', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N2'], id: 'B' });
+
+    jest.advanceTimersByTime(1000);
+    sessionService.removeSession('records-8');
+    sessionService.createSession('records-8');
+
+    expect(sessionService.getEmergencies('records-8').map(({ id, outcome, resolvedAt }) => ({ id, outcome, resolvedAt }))).toEqual([
+      { id: 'A', outcome: 'ACCEPTED', resolvedAt: new Date(0).toISOString() },
+      { id: 'B', outcome: 'DISCARDED', resolvedAt: new Date(1000).toISOString() },
+    ]);
+    expect(sessionService.getEmergencyReport().summary).toMatchObject({ ACCEPTED: 1, DISCARDED: 1 });
+    expect(sessionService.getEmergencyReport().anonymousAnswers).toBe(0);
+    sessionService.removeSession('records-8');
+  });
+
+  // Test: an emergency an undo and a redo bring back to confirmation is requested again and its answer is recorded.
+  it('should record the answer to an emergency brought back by undo and redo', () => {
+    jest.useFakeTimers({ now: 0 });
+    sessionService.createSession('records-9');
+    sessionService.sendEvent('records-9', { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], id: 'A' });
+    sessionService.undo('records-9');
+    sessionService.redo('records-9');
+
+    jest.advanceTimersByTime(1000);
+    sessionService.sendEvent('records-9', { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true, user: 'bob' });
+
+    expect(sessionService.getEmergencies('records-9').map(({ id, outcome, user, confirmationMs }) => ({ id, outcome, user, confirmationMs }))).toEqual([
+      { id: 'A', outcome: 'DISCARDED', user: null, confirmationMs: null },
+      { id: 'A', outcome: 'ACCEPTED', user: 'bob', confirmationMs: 1000 },
+    ]);
+    sessionService.removeSession('records-9');
+  });
+
+  // Test: emergencies received in a batch are recorded step by step.
+  it('should record the emergencies of a batch', () => {
+    sessionService.createSession('records-7');
+    sessionService.sendEvents('records-7', [
+      { type: FrameEventTypes.NOTFALL_EMPFANGEN, list: ['N1'], id: 'A' },
+      { type: FrameEventTypes.USER_BESTAETIGT_NOTFALL, accepted: true, user: 'dispatcher-12' },
+    ]);
+    expect(sessionService.getEmergencies('records-7')).toEqual([
+      expect.objectContaining({ id: 'A', outcome: 'ACCEPTED', user: 'dispatcher-12' }),
+    ]);
+    sessionService.removeSession('records-7');
+  });
+});
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { sessionService } from '../../src/services/session.service';
+import { FileSessionStore, InMemorySessionStore } from '../../src/services/session.store';
+
+/* --------------------------------------------------------------
+  SESSION STORE TESTS
+  These tests verify that sessions are persisted after every change
+  and are restored to the exact same state after a restart.
+-------------------------------------------------------------- */
+
+// Simulates a restart of the service: all Actors are lost, only the store survives.
+const simulateRestart = () => {
+  (sessionService as any).activeSessions.clear();
+  (sessionService as any).emergencyLog = [];
+};
+
+describe('FileSessionStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-'));
+    filePath = path.join(dir, 'sessions.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per change and load the latest record per session', () => {
+    const store = new FileSessionStore(filePath);
+    store.save({ sessionId: 'a', snapshot: { status: 'active', output: undefined, error: undefined } });
+    store.save({ sessionId: 'b', snapshot: { status: 'active', output: undefined, error: undefined } });
+    store.save({ sessionId: 'a', snapshot: { status: 'done', output: undefined, error: undefined } });
+    store.remove('b');
+
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(4);
+
+    const records = new FileSessionStore(filePath).loadAll();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual({ sessionId: 'a', snapshot: { status: 'done' } });
+  });
+
+  it('should compact the file when loading and skip invalid lines', () => {
+    fs.writeFileSync(filePath, [
+      JSON.stringify({ op: 'save', record: { sessionId: 'a', snapshot: { status: 'active' } } }),
+      JSON.stringify({ op: 'save', record: { sessionId: 'a', snapshot: { status: 'done' } } }),
+      '{"op":"save","rec', // partially written line after a crash
+      '',
+    ].join('\n'));
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const records = new FileSessionStore(filePath).loadAll();
+
+    expect(records).toEqual([{ sessionId: 'a', snapshot: { status: 'done' } }]);
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+    warnSpy.mockRestore();
+  });
+
+  it('should keep the latest version of every emergency record when compacting', () => {
+    const store = new FileSessionStore(filePath);
+    const record = {
+      seq: 1, sessionId: 'a', id: 'A', priority: 0, list: [], receivedAt: new Date(0).toISOString(), displayedAt: null,
+      resolvedAt: null, confirmationMs: null, outcome: 'PENDING' as const, user: null, comment: null, reminders: 0, escalated: false,
+    };
+    store.saveEmergency(record);
+    store.saveEmergency({ ...record, seq: 2 });
+    store.saveEmergency({ ...record, outcome: 'DISCARDED' });
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(3);
+
+    const reloaded = new FileSessionStore(filePath);
+    expect(reloaded.loadEmergencies()).toEqual([{ ...record, outcome: 'DISCARDED' }, { ...record, seq: 2 }]);
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('should read and compact the file only once', () => {
+    new FileSessionStore(filePath).save({ sessionId: 'a', snapshot: { status: 'active', output: undefined, error: undefined } });
+    const store = new FileSessionStore(filePath);
+    const readSpy = jest.spyOn(fs, 'readFileSync');
+
+    store.save({ sessionId: 'b', snapshot: { status: 'active', output: undefined, error: undefined } });
+    expect(store.loadAll().map((record) => record.sessionId)).toEqual(['a', 'b']);
+    expect(store.loadEmergencies()).toEqual([]);
+
+    expect(readSpy.mock.calls.filter(([file]) => file === filePath)).toHaveLength(1);
+    readSpy.mockRestore();
+  });
+
+  it('should compact the file after the configured number of appended lines', () => {
+    const store = new FileSessionStore(filePath, 3);
+    for (let i = 0; i < 3; i++) {
+      store.save({ sessionId: 'a', snapshot: { status: 'active', output: undefined, error: undefined } });
+    }
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+});
+
+describe('SessionService - Persistence', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    simulateRestart();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-'));
+    filePath = path.join(dir, 'sessions.jsonl');
+    sessionService.useStore(new FileSessionStore(filePath));
+  });
+
+  afterEach(() => {
+    sessionService.useStore(undefined);
+    simulateRestart();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should restore a session in NotfallModus.Anzeigen with the exact same state, indices and history', () => {
+    sessionService.createSession('kiosk-1');
+    sessionService.sendEvent('kiosk-1', { type: 'LADE_NEUE_LISTE', list: ['E1', 'E2', 'E3'], context: 'ENTITAET' });
+    sessionService.sendEvent('kiosk-1', { type: 'NAECHSTER_FRAME' });
+    sessionService.sendEvent('kiosk-1', { type: 'LADE_NEUE_LISTE', list: ['A1', 'A2', 'A3'], context: 'ALLGEMEIN' });
+    sessionService.sendEvent('kiosk-1', { type: 'NAECHSTER_FRAME' });
+    sessionService.sendEvent('kiosk-1', { type: 'NAECHSTER_FRAME' });
+    sessionService.sendEvent('kiosk-1', { type: 'NOTFALL_EMPFANGEN', list: ['N1', 'N2'] });
+    sessionService.sendEvent('kiosk-1', { type: 'USER_BESTAETIGT_NOTFALL', accepted: true });
+    const before = sessionService.sendEvent('kiosk-1', { type: 'NAECHSTER_FRAME' });
+
+    // Restart with a new store instance reading the same file
+    simulateRestart();
+    sessionService.useStore(new FileSessionStore(filePath));
+    expect(sessionService.restoreSessions()).toBe(1);
+
+    const after = sessionService.getSessionState('kiosk-1');
+    expect(after).toEqual(before);
+    expect(after.currentState).toEqual({ NotfallModus: 'Anzeigen' });
+    expect(after.currentFrame).toBe('N2');
+    expect(after.context.aktuellerEntitaetIndex).toBe(1);
+    expect(after.context.aktuellerAllgemeinIndex).toBe(2);
+    expect(after.context.aktuellerNotfallIndex).toBe(1);
+
+    // The restored Actor keeps working, including the history state of ArbeitsModus
+    const closed = sessionService.sendEvent('kiosk-1', { type: 'SCHLIESSEN' });
+    expect(closed.currentState).toEqual({ ArbeitsModus: 'Allgemein' });
+    expect(closed.currentFrame).toBe('A3');
+  });
+
+  it('should not restore deleted sessions', () => {
+    sessionService.createSession('kept');
+    sessionService.createSession('deleted');
+    sessionService.removeSession('deleted');
+
+    simulateRestart();
+    sessionService.useStore(new FileSessionStore(filePath));
+    sessionService.restoreSessions();
+
+    expect(sessionService.getAllSessions().map((s) => s.sessionId)).toEqual(['kept']);
+  });
+
+  it('should restore the emergency records, including those of deleted sessions', () => {
+    sessionService.createSession('kept');
+    sessionService.createSession('deleted');
+    sessionService.sendEvent('kept', { type: 'NOTFALL_EMPFANGEN', list: ['N1'], id: 'A' });
+    sessionService.sendEvent('deleted', { type: 'NOTFALL_EMPFANGEN', list: ['N1'], id: 'B' });
+    sessionService.sendEvent('deleted', { type: 'USER_BESTAETIGT_NOTFALL', accepted: true, user: 'dispatcher-12' });
+    sessionService.removeSession('deleted');
+
+    simulateRestart();
+    sessionService.useStore(new FileSessionStore(filePath));
+    sessionService.restoreSessions();
+
+    expect(sessionService.getEmergencyReport().emergencies.map(({ sessionId, id, outcome }) => ({ sessionId, id, outcome }))).toEqual([
+      { sessionId: 'kept', id: 'A', outcome: 'PENDING' },
+      { sessionId: 'deleted', id: 'B', outcome: 'ACCEPTED' },
+    ]);
+  });
+
+  it('should convert plain string frames of older snapshots into frame objects', () => {
+    const store = new InMemorySessionStore();
+    sessionService.useStore(store);
+    sessionService.createSession('legacy');
+    sessionService.sendEvent('legacy', { type: 'LADE_NEUE_LISTE', list: ['E1', 'E2'], context: 'ENTITAET' });
+    sessionService.sendEvent('legacy', { type: 'NAECHSTER_FRAME' });
+
+    // Rewrite the stored snapshot as it was saved before frames were objects and before the emergency list existed
+    const [record] = store.loadAll();
+    const { notfallListe, ...context } = (record.snapshot as any).context;
+    store.save({
+      ...record,
+      snapshot: { ...record.snapshot, context: { ...context, entitaetListe: ['E1', 'E2'], aktuellerFrame: 'E2' } } as any,
+    });
+
+    simulateRestart();
+    expect(sessionService.restoreSessions()).toBe(1);
+
+    const restored = sessionService.getSessionState('legacy');
+    expect(restored.currentFrame).toBe('E2');
+    expect(restored.frame).toEqual({ id: 'E2', title: 'E2' });
+    expect(restored.context.entitaetListe).toEqual([{ id: 'E1', title: 'E1' }, { id: 'E2', title: 'E2' }]);
+    expect(restored.context.notfallListe).toEqual([]);
+    expect(sessionService.sendEvent('legacy', { type: 'VORHERIGER_FRAME' }).frame).toEqual({ id: 'E1', title: 'E1' });
+  });
+
+  it('should keep the session working when the store fails', () => {
+    const store = new InMemorySessionStore();
+    jest.spyOn(store, 'save').mockImplementation(() => { throw new Error('Disk full'); });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    sessionService.useStore(store);
+
+    sessionService.createSession('failing');
+    const snapshot = sessionService.sendEvent('failing', { type: 'LADE_NEUE_LISTE', list: ['E1'], context: 'ENTITAET' });
+
+    expect(snapshot.currentFrame).toBe('E1');
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});